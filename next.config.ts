@@ -13,6 +13,20 @@ const nextConfig: NextConfig = {
       },
     ],
   },
+  // Mermaid's browser bundle is read from disk (src/lib/mermaid.ts) rather
+  // than imported, so tracing can't see it; pages revalidate at runtime
+  outputFileTracingIncludes: {
+    "/**": ["./node_modules/mermaid/dist/mermaid.min.js"],
+  },
+  // Serve the date archive at /blog/2025 and /blog/2025/10. The pages live
+  // under /blog/archive because /blog/[slug] already owns that segment;
+  // afterFiles rewrites run before dynamic routes are matched.
+  async rewrites() {
+    return [
+      { source: "/blog/:year(\\d{4})", destination: "/blog/archive/:year" },
+      { source: "/blog/:year(\\d{4})/:month(\\d{2})", destination: "/blog/archive/:year/:month" },
+    ];
+  },
 };
 
 const withMDX = createMDX({
@@ -21,7 +35,7 @@ const withMDX = createMDX({
     rehypePlugins: [
       "rehype-highlight", // Syntax highlighting for code blocks
       "rehype-slug", // Add IDs to headings
-      ["rehype-autolink-headings", { behavior: "wrap" }], // Add anchor links to headings
+      ["rehype-autolink-headings", { behavior: "wrap", properties: { className: ["heading-anchor"] } }], // Add anchor links to headings
     ],
   },
 });
@@ -1,33 +1,12 @@
-import { getAllVentures } from "@/lib/ventures";
+import { getAllVentures, toVenture } from "@/lib/ventures";
 import { VentureCard } from "@/components/ui/venture-card";
 import { Badge } from "@/components/ui/badge";
-import type { Venture } from "@/types/venture";
 import Link from "next/link";
 import { ArrowLeft } from "lucide-react";
 
-/**
- * Convert MDX venture to component venture format
- */
-function convertMdxVenture(mdxVenture: ReturnType<typeof getAllVentures>[number]): Venture {
-  return {
-    id: mdxVenture.slug,
-    name: mdxVenture.frontmatter.title,
-    description: mdxVenture.frontmatter.description,
-    icon: mdxVenture.frontmatter.icon,
-    status: mdxVenture.frontmatter.status,
-    metrics: mdxVenture.frontmatter.metrics || {},
-    technologies: mdxVenture.frontmatter.technologies,
-    coverImage: mdxVenture.frontmatter.coverImage,
-    screenshots: mdxVenture.frontmatter.screenshots,
-    link: mdxVenture.frontmatter.link,
-    github: mdxVenture.frontmatter.github,
-  };
-}
-
 export default function AllProjectsPage() {
   // Load all ventures from MDX
-  const mdxVentures = getAllVentures();
-  const ventures = mdxVentures.map(convertMdxVenture);
+  const ventures = getAllVentures().map(toVenture);
 
   return (
     <div className="min-h-screen bg-background">
@@ -63,7 +42,7 @@ export default function AllProjectsPage() {
         <div className="container mx-auto max-w-7xl">
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 md:gap-8">
             {ventures.map((venture) => (
-              <VentureCard key={venture.id} venture={venture} />
+              <VentureCard key={venture.slug} venture={venture} />
             ))}
           </div>
 
@@ -0,0 +1,19 @@
+import { draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+
+/**
+ * Disable Draft Preview
+ * 
+ * GET /api/draft/disable?path=/blog/some-post
+ * 
+ * Turns off draft mode and returns to the given site path (home by default).
+ * Only same-site paths are accepted.
+ */
+export async function GET(request: Request) {
+  const path = new URL(request.url).searchParams.get("path");
+
+  (await draftMode()).disable();
+
+  // Reject protocol-relative paths ("//evil.com", "/\\evil.com")
+  redirect(path && /^\/(?![/\\])/.test(path) ? path : "/");
+}
@@ -0,0 +1,46 @@
+import { draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+import { getPostBySlug } from "@/lib/mdx";
+import { getVentureBySlug } from "@/lib/ventures";
+import { isValidPreviewToken } from "@/lib/preview";
+import { postHref, projectHref } from "@/lib/routes";
+
+/**
+ * Enable Draft Preview
+ * 
+ * GET /api/draft?secret=...&type=post|venture&slug=...
+ * 
+ * Turns on draft mode and redirects to the entry, so unpublished and
+ * scheduled content renders with production styling. The redirect target
+ * is built from the slug, never taken from the query, so this cannot be
+ * used as an open redirect.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const type = searchParams.get("type") ?? "post";
+  const slug = searchParams.get("slug");
+
+  if (!isValidPreviewToken(searchParams.get("secret"))) {
+    return new Response("Invalid preview token", { status: 401 });
+  }
+
+  if (!slug) {
+    return new Response("Missing slug", { status: 400 });
+  }
+
+  let href: string | null = null;
+  if (type === "post") {
+    href = getPostBySlug(slug) ? postHref(slug) : null;
+  } else if (type === "venture") {
+    href = getVentureBySlug(slug) ? projectHref(slug) : null;
+  } else {
+    return new Response(`Unknown content type "${type}"`, { status: 400 });
+  }
+
+  if (!href) {
+    return new Response("Content not found", { status: 404 });
+  }
+
+  (await draftMode()).enable();
+  redirect(href);
+}
@@ -0,0 +1,144 @@
+import { authors, getAuthorBySlug, getPostsByAuthor } from "@/lib/authors";
+import { PostArchive } from "@/components/blog/post-archive";
+import { AuthorAvatar } from "@/components/blog/author-byline";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Github, Globe, Linkedin, Mail, Twitter } from "lucide-react";
+import { MdxContent } from "@/components/mdx";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import type { AuthorSocialLinks } from "@/types/author";
+import { authorHref } from "@/lib/routes";
+
+// Only authors in content/authors exist
+export const dynamicParams = false;
+
+/**
+ * Social link labels and icons, in display order
+ */
+const socialLinks: {
+  key: keyof AuthorSocialLinks;
+  label: string;
+  icon: typeof Github;
+}[] = [
+  { key: "website", label: "Website", icon: Globe },
+  { key: "github", label: "GitHub", icon: Github },
+  { key: "linkedin", label: "LinkedIn", icon: Linkedin },
+  { key: "twitter", label: "Twitter", icon: Twitter },
+  { key: "email", label: "Email", icon: Mail },
+];
+
+/**
+ * Generate Static Params
+ *
+ * One profile page per author
+ */
+export async function generateStaticParams() {
+  return authors.getSlugs().map((slug) => ({
+    slug,
+  }));
+}
+
+/**
+ * Generate Metadata
+ */
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}): Promise<Metadata> {
+  const { slug } = await params;
+  const author = getAuthorBySlug(slug);
+
+  if (!author) {
+    return {
+      title: "Author Not Found",
+    };
+  }
+
+  return {
+    title: `${author.frontmatter.name} | Blog | Ammly XYZ`,
+    description: author.frontmatter.bio,
+    openGraph: {
+      title: author.frontmatter.name,
+      description: author.frontmatter.bio,
+      type: "profile",
+      images: author.frontmatter.avatar ? [author.frontmatter.avatar] : [],
+    },
+  };
+}
+
+/**
+ * Author Profile Page
+ *
+ * Bio, social links and every post the author wrote or co-wrote
+ */
+export default async function AuthorPage({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await params;
+  const author = getAuthorBySlug(slug);
+
+  if (!author) {
+    notFound();
+  }
+
+  const { frontmatter } = author;
+  const posts = getPostsByAuthor(slug);
+
+  return (
+    <PostArchive
+      eyebrow="Author"
+      title={frontmatter.name}
+      description={frontmatter.role}
+      posts={posts}
+      breadcrumbs={[{ name: frontmatter.name, path: authorHref(slug) }]}
+    >
+      {/* Profile */}
+      <Card className="p-6 md:p-8 mb-12 max-w-3xl mx-auto">
+        <div className="flex flex-col sm:flex-row items-center sm:items-start gap-6">
+          <AuthorAvatar author={author} size="lg" />
+
+          <div className="flex-1 space-y-4 text-center sm:text-left">
+            <p className="text-lg font-medium">{frontmatter.bio}</p>
+
+            {author.content.trim() && (
+              <div className="prose prose-neutral dark:prose-invert max-w-none">
+                <MdxContent source={author.content} collection="authors" />
+              </div>
+            )}
+
+            <div className="flex flex-wrap justify-center sm:justify-start gap-2">
+              {socialLinks.map(({ key, label, icon: Icon }) => {
+                const value = frontmatter.social[key];
+                if (!value) return null;
+
+                const href = key === "email" ? `mailto:${value}` : value;
+                const external = key !== "email";
+
+                return (
+                  <a
+                    key={key}
+                    href={href}
+                    {...(external && { target: "_blank", rel: "noopener noreferrer" })}
+                  >
+                    <Button variant="outline" size="sm">
+                      <Icon className="h-4 w-4 mr-2" />
+                      {label}
+                    </Button>
+                  </a>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      </Card>
+
+      <h2 className="text-2xl font-semibold mb-6">
+        {posts.length} {posts.length === 1 ? "post" : "posts"}
+      </h2>
+    </PostArchive>
+  );
+}
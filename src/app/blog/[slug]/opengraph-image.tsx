@@ -0,0 +1,42 @@
+import { ImageResponse } from "next/og";
+import { notFound } from "next/navigation";
+import { OgCard } from "@/components/og";
+import { getPostBySlug, isPostPublic } from "@/lib/mdx";
+import { getViewableEntry } from "@/lib/preview";
+import { loadOgCover, ogImageSize, ogImageContentType } from "@/lib/og";
+
+export const alt = "Blog post";
+export const size = ogImageSize;
+export const contentType = ogImageContentType;
+
+/**
+ * Blog Post Open Graph Image
+ *
+ * Share card with the post's title, category, tags and reading time,
+ * drawn over the cover image when the post has one
+ */
+export default async function Image({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const post = await getViewableEntry(getPostBySlug(slug), isPostPublic);
+
+  if (!post) {
+    notFound();
+  }
+
+  const { frontmatter, stats } = post;
+  const cover = await loadOgCover(frontmatter.coverImage);
+
+  return new ImageResponse(
+    (
+      <OgCard
+        eyebrow={frontmatter.category}
+        title={frontmatter.title}
+        description={frontmatter.description}
+        tags={frontmatter.tags}
+        meta={[frontmatter.readingTime || stats.readingTime]}
+        cover={cover}
+      />
+    ),
+    size
+  );
+}
@@ -1,98 +1,45 @@
-import { getAllPostSlugs, getPostBySlug, calculateReadingTime, getAllPosts } from "@/lib/mdx";
-import { MDXRemote } from "next-mdx-remote/rsc";
-import { Badge } from "@/components/ui/badge";
+import { getAllPosts, getPostBySlug, getAdjacentPosts, getSeriesBySlug, isPostPublic } from "@/lib/mdx";
 import { Card } from "@/components/ui/card";
+import { MdxContent } from "@/components/mdx";
 import { ShareButtons } from "@/components/blog/share-buttons";
+import { TagBadge, CategoryBadge } from "@/components/blog/taxonomy-badge";
+import { SeriesNavigator } from "@/components/blog/series-navigator";
+import { AuthorByline } from "@/components/blog/author-byline";
+import { TableOfContents } from "@/components/blog/table-of-contents";
+import { RelatedReading } from "@/components/content/related-reading";
+import { getRelatedContent } from "@/lib/related";
 import { Calendar, Clock, ArrowLeft, ArrowRight, Share2 } from "lucide-react";
 import Link from "next/link";
 import Image from "next/image";
 import { notFound } from "next/navigation";
 import type { Metadata } from "next";
-
-// Import syntax highlighting CSS
-import "highlight.js/styles/github-dark.css";
-
-/**
- * MDX Components
- * 
- * Custom components for MDX content
- * Enhances default HTML elements with Tailwind styling
- */
-const components = {
-  h1: (props: React.HTMLAttributes<HTMLHeadingElement>) => (
-    <h1 className="text-4xl font-bold tracking-tight mt-8 mb-4" {...props} />
-  ),
-  h2: (props: React.HTMLAttributes<HTMLHeadingElement>) => (
-    <h2 className="text-3xl font-bold tracking-tight mt-8 mb-4" {...props} />
-  ),
-  h3: (props: React.HTMLAttributes<HTMLHeadingElement>) => (
-    <h3 className="text-2xl font-bold tracking-tight mt-6 mb-3" {...props} />
-  ),
-  h4: (props: React.HTMLAttributes<HTMLHeadingElement>) => (
-    <h4 className="text-xl font-bold tracking-tight mt-6 mb-3" {...props} />
-  ),
-  p: (props: React.HTMLAttributes<HTMLParagraphElement>) => (
-    <p className="text-lg leading-relaxed mb-4 text-foreground/90" {...props} />
-  ),
-  ul: (props: React.HTMLAttributes<HTMLUListElement>) => (
-    <ul className="list-disc list-inside mb-4 space-y-2" {...props} />
-  ),
-  ol: (props: React.HTMLAttributes<HTMLOListElement>) => (
-    <ol className="list-decimal list-inside mb-4 space-y-2" {...props} />
-  ),
-  li: (props: React.HTMLAttributes<HTMLLIElement>) => (
-    <li className="text-lg text-foreground/90" {...props} />
-  ),
-  a: (props: React.AnchorHTMLAttributes<HTMLAnchorElement>) => (
-    <a
-      className="text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300 underline underline-offset-4 transition-colors"
-      {...props}
-    />
-  ),
-  blockquote: (props: React.BlockquoteHTMLAttributes<HTMLQuoteElement>) => (
-    <blockquote
-      className="border-l-4 border-primary-500 pl-4 italic my-4 text-muted-foreground"
-      {...props}
-    />
-  ),
-  code: (props: React.HTMLAttributes<HTMLElement>) => (
-    <code
-      className="bg-muted px-1.5 py-0.5 rounded text-sm font-mono"
-      {...props}
-    />
-  ),
-  pre: (props: React.HTMLAttributes<HTMLPreElement>) => (
-    <pre
-      className="bg-neutral-900 dark:bg-neutral-950 p-4 rounded-lg overflow-x-auto my-4"
-      {...props}
-    />
-  ),
-  img: (props: React.ImgHTMLAttributes<HTMLImageElement>) => (
-    // eslint-disable-next-line @next/next/no-img-element
-    <img className="rounded-lg my-4 w-full" alt="" {...props} />
-  ),
-  hr: (props: React.HTMLAttributes<HTMLHRElement>) => (
-    <hr className="my-8 border-border" {...props} />
-  ),
-};
+import { absoluteUrl } from "@/lib/site";
+import { postHref, authorHref } from "@/lib/routes";
+import { getPostAuthors } from "@/lib/authors";
+import { getViewableEntry } from "@/lib/preview";
+import { extractTableOfContents } from "@/lib/mdx-pipeline";
+import { formatCalendarDate } from "@/lib/dates";
+import { JsonLd } from "@/components/seo";
+import { blogPostingJsonLd, breadcrumbJsonLd } from "@/lib/structured-data";
 
 /**
  * Generate Static Params
  * 
- * Generates static paths for all blog posts at build time
+ * Generates static paths for public posts at build time.
+ * Scheduled posts render on demand once their date passes, and drafts
+ * 404 unless draft mode is enabled.
  */
 export async function generateStaticParams() {
-  const slugs = getAllPostSlugs();
-  
-  return slugs.map((slug) => ({
-    slug,
+  return getAllPosts().map((post) => ({
+    slug: post.slug,
   }));
 }
 
 /**
  * Generate Metadata
  * 
- * Generates SEO metadata for each blog post
+ * Generates SEO metadata for each blog post. The share image comes
+ * from opengraph-image.tsx, which draws over the cover image if any.
  */
 export async function generateMetadata({
   params,
@@ -100,7 +47,7 @@ export async function generateMetadata({
   params: Promise<{ slug: string }>;
 }): Promise<Metadata> {
   const { slug } = await params;
-  const post = getPostBySlug(slug);
+  const post = await getViewableEntry(getPostBySlug(slug), isPostPublic);
 
   if (!post) {
     return {
@@ -111,50 +58,22 @@ export async function generateMetadata({
   return {
     title: post.frontmatter.title,
     description: post.frontmatter.description,
-    authors: [{ name: post.frontmatter.author }],
+    authors: getPostAuthors(post).map((author) => ({
+      name: author.frontmatter.name,
+      url: absoluteUrl(authorHref(author.slug)),
+    })),
     openGraph: {
       title: post.frontmatter.title,
       description: post.frontmatter.description,
       type: "article",
       publishedTime: post.frontmatter.date,
-      images: post.frontmatter.coverImage ? [post.frontmatter.coverImage] : [],
+      tags: post.frontmatter.tags,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: post.frontmatter.title,
+      description: post.frontmatter.description,
     },
-  };
-}
-
-/**
- * Extract Table of Contents from MDX content
- * Parses h2 and h3 headings for navigation
- */
-function extractTableOfContents(content: string): { id: string; title: string; level: number }[] {
-  const headingRegex = /^(#{2,3})\s+(.+)$/gm;
-  const toc: { id: string; title: string; level: number }[] = [];
-  let match;
-
-  while ((match = headingRegex.exec(content)) !== null) {
-    const level = match[1].length;
-    const title = match[2].trim();
-    const id = title
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, "-")
-      .replace(/^-|-$/g, "");
-    
-    toc.push({ id, title, level });
-  }
-
-  return toc;
-}
-
-/**
- * Get Previous and Next Posts
- */
-function getAdjacentPosts(currentSlug: string) {
-  const allPosts = getAllPosts();
-  const currentIndex = allPosts.findIndex((post) => post.slug === currentSlug);
-  
-  return {
-    previous: currentIndex < allPosts.length - 1 ? allPosts[currentIndex + 1] : null,
-    next: currentIndex > 0 ? allPosts[currentIndex - 1] : null,
   };
 }
 
@@ -165,6 +84,7 @@ function getAdjacentPosts(currentSlug: string) {
  * - Author info
  * - Social sharing
  * - Table of contents
+ * - Series navigator
  * - Previous/next navigation
  */
 export default async function BlogPostPage({
@@ -173,33 +93,46 @@ export default async function BlogPostPage({
   params: Promise<{ slug: string }>;
 }) {
   const { slug } = await params;
-  const post = getPostBySlug(slug);
+  const post = await getViewableEntry(getPostBySlug(slug), isPostPublic);
 
   if (!post) {
     notFound();
   }
 
-  const { frontmatter, content } = post;
-  const readingTime = frontmatter.readingTime || calculateReadingTime(content);
-  const formattedDate = new Date(frontmatter.date).toLocaleDateString("en-US", {
-    year: "numeric",
-    month: "long",
-    day: "numeric",
-  });
+  const { frontmatter, content, stats } = post;
+  const readingTime = frontmatter.readingTime || stats.readingTime;
+  const formattedDate = formatCalendarDate(frontmatter.date);
 
   // Extract table of contents
-  const tableOfContents = extractTableOfContents(content);
+  const tableOfContents = await extractTableOfContents(content, { collection: "blog" });
 
-  // Get adjacent posts
+  // Resolved authors (unknown references fail the build)
+  const authors = getPostAuthors(post);
+
+  // Series membership and adjacent posts (series order wins over date order)
+  const series = frontmatter.series ? getSeriesBySlug(frontmatter.series.name) : null;
   const { previous, next } = getAdjacentPosts(slug);
 
+  // Related posts and ventures
+  const related = getRelatedContent("post", slug);
+
   // Current URL for sharing
-  const postUrl = `https://ammly.xyz/blog/${slug}`;
+  const postUrl = absoluteUrl(postHref(slug));
   const shareText = encodeURIComponent(frontmatter.title);
   const shareUrl = encodeURIComponent(postUrl);
 
+  // Structured data (missing required fields fail the build)
+  const structuredData = [
+    blogPostingJsonLd(post, authors),
+    breadcrumbJsonLd([
+      { name: "Blog", path: "/blog" },
+      { name: frontmatter.title, path: postHref(slug) },
+    ]),
+  ];
+
   return (
     <article className="min-h-screen py-20 px-4 sm:px-6 lg:px-8">
+      <JsonLd data={structuredData} />
       <div className="container mx-auto max-w-7xl">
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           {/* Main Content */}
@@ -216,9 +149,7 @@ export default async function BlogPostPage({
             {/* Article Header */}
             <header className="mb-8 space-y-4">
               {/* Category Badge */}
-              <Badge variant="primary" size="lg">
-                {frontmatter.category}
-              </Badge>
+              <CategoryBadge category={frontmatter.category} size="lg" />
 
               {/* Title */}
               <h1 className="text-4xl md:text-5xl lg:text-6xl font-bold tracking-tight">
@@ -231,39 +162,23 @@ export default async function BlogPostPage({
               </p>
 
               {/* Author & Metadata */}
-              <div className="flex items-start gap-4 pt-4 border-t border-border">
-                {/* Author Avatar */}
-                <div className="shrink-0">
-                  <div className="h-12 w-12 rounded-full bg-primary-100 dark:bg-primary-900/30 flex items-center justify-center text-primary-600 dark:text-primary-400 font-bold text-lg">
-                    {frontmatter.author.charAt(0)}
-                  </div>
-                </div>
-
-                {/* Author Info & Metadata */}
-                <div className="flex-1 space-y-2">
-                  <div>
-                    <div className="font-semibold text-foreground">{frontmatter.author}</div>
-                    <div className="text-sm text-muted-foreground">Software Engineer @ Safaricom</div>
+              <AuthorByline authors={authors} className="pt-4 border-t border-border">
+                <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                  <div className="flex items-center gap-1">
+                    <Calendar className="h-4 w-4" />
+                    <span>{formattedDate}</span>
                   </div>
-                  <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
-                    <div className="flex items-center gap-1">
-                      <Calendar className="h-4 w-4" />
-                      <span>{formattedDate}</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <Clock className="h-4 w-4" />
-                      <span>{readingTime}</span>
-                    </div>
+                  <div className="flex items-center gap-1">
+                    <Clock className="h-4 w-4" />
+                    <span>{readingTime}</span>
                   </div>
                 </div>
-              </div>
+              </AuthorByline>
 
               {/* Tags */}
               <div className="flex flex-wrap gap-2 pt-4">
                 {frontmatter.tags.map((tag) => (
-                  <Badge key={tag} variant="outline">
-                    {tag}
-                  </Badge>
+                  <TagBadge key={tag} tag={tag} />
                 ))}
               </div>
 
@@ -283,38 +198,44 @@ export default async function BlogPostPage({
               </div>
             )}
 
+            {/* Series Navigator */}
+            {series && <SeriesNavigator series={series} currentSlug={slug} className="mb-8" />}
+
             {/* MDX Content */}
             <div className="prose prose-lg dark:prose-invert max-w-none">
-              <MDXRemote source={content} components={components} />
+              <MdxContent source={content} collection="blog" />
             </div>
 
+            {/* Related Reading */}
+            <RelatedReading items={related} />
+
             {/* Previous/Next Navigation */}
             {(previous || next) && (
               <nav className="mt-12 pt-8 border-t border-border">
                 <h3 className="text-lg font-semibold mb-4">Continue Reading</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   {previous && (
-                    <Link href={`/blog/${previous.slug}`}>
+                    <Link href={postHref(previous.post.slug)}>
                       <Card className="h-full p-4 hover:shadow-md transition-shadow cursor-pointer group">
                         <div className="text-sm text-muted-foreground mb-2 flex items-center gap-1">
                           <ArrowLeft className="h-4 w-4" />
-                          Previous
+                          {previous.seriesPart ? `Part ${previous.seriesPart}` : "Previous"}
                         </div>
                         <h4 className="font-semibold group-hover:text-primary-600 dark:group-hover:text-primary-400 transition-colors">
-                          {previous.frontmatter.title}
+                          {previous.post.frontmatter.title}
                         </h4>
                       </Card>
                     </Link>
                   )}
                   {next && (
-                    <Link href={`/blog/${next.slug}`}>
+                    <Link href={postHref(next.post.slug)} className="md:col-start-2">
                       <Card className="h-full p-4 hover:shadow-md transition-shadow cursor-pointer group">
                         <div className="text-sm text-muted-foreground mb-2 flex items-center gap-1 justify-end">
-                          Next
+                          {next.seriesPart ? `Part ${next.seriesPart}` : "Next"}
                           <ArrowRight className="h-4 w-4" />
                         </div>
                         <h4 className="font-semibold text-right group-hover:text-primary-600 dark:group-hover:text-primary-400 transition-colors">
-                          {next.frontmatter.title}
+                          {next.post.frontmatter.title}
                         </h4>
                       </Card>
                     </Link>
@@ -342,19 +263,7 @@ export default async function BlogPostPage({
               {tableOfContents.length > 0 && (
                 <Card className="p-6">
                   <h3 className="text-lg font-semibold mb-4">Table of Contents</h3>
-                  <nav className="space-y-2">
-                    {tableOfContents.map((item) => (
-                      <a
-                        key={item.id}
-                        href={`#${item.id}`}
-                        className={`block text-sm hover:text-primary-600 dark:hover:text-primary-400 transition-colors ${
-                          item.level === 3 ? "pl-4 text-muted-foreground" : "font-medium"
-                        }`}
-                      >
-                        {item.title}
-                      </a>
-                    ))}
-                  </nav>
+                  <TableOfContents items={tableOfContents} />
                 </Card>
               )}
 
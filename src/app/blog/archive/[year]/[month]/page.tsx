@@ -0,0 +1,92 @@
+import { getArchiveMonth, getPostArchive } from "@/lib/mdx";
+import { PostArchive } from "@/components/blog/post-archive";
+import { archiveHref } from "@/lib/routes";
+import { formatMonth } from "@/lib/dates";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+
+/**
+ * Generate Static Params
+ * 
+ * One page per month with a published post (served at /blog/[year]/[month])
+ */
+export async function generateStaticParams() {
+  return getPostArchive().flatMap(({ year, months }) =>
+    months.map(({ month }) => ({
+      year: String(year),
+      month: String(month).padStart(2, "0"),
+    }))
+  );
+}
+
+/**
+ * Find the archive month for route params ("2025", "10")
+ */
+function resolveMonth({ year, month }: { year: string; month: string }) {
+  if (!/^\d{4}$/.test(year) || !/^(0[1-9]|1[0-2])$/.test(month)) return null;
+  return getArchiveMonth(Number(year), Number(month));
+}
+
+/**
+ * Generate Metadata
+ */
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ year: string; month: string }>;
+}): Promise<Metadata> {
+  const archiveMonth = resolveMonth(await params);
+
+  if (!archiveMonth) {
+    return {
+      title: "Month Not Found",
+    };
+  }
+
+  const name = formatMonth(archiveMonth.month, archiveMonth.year);
+
+  return {
+    title: `${name} | Blog | Ammly XYZ`,
+    description: `Articles published in ${name}`,
+    alternates: {
+      canonical: archiveHref(archiveMonth.year, archiveMonth.month),
+    },
+  };
+}
+
+/**
+ * Month Archive Page
+ * 
+ * Lists published posts dated in a month
+ */
+export default async function MonthArchivePage({
+  params,
+}: {
+  params: Promise<{ year: string; month: string }>;
+}) {
+  const archiveMonth = resolveMonth(await params);
+
+  if (!archiveMonth) {
+    notFound();
+  }
+
+  const { year, month, posts } = archiveMonth;
+  const name = formatMonth(month, year);
+
+  return (
+    <PostArchive
+      eyebrow="Archive"
+      title={name}
+      description={`${posts.length} ${posts.length === 1 ? "article" : "articles"} published in ${name}`}
+      posts={posts}
+      backHref={archiveHref(year)}
+      backLabel={`All of ${year}`}
+      breadcrumbs={[
+        { name: "Blog", path: "/blog" },
+        { name: "Archive", path: archiveHref() },
+        { name: String(year), path: archiveHref(year) },
+        { name: formatMonth(month), path: archiveHref(year, month) },
+      ]}
+    />
+  );
+}
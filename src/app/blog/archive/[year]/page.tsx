@@ -0,0 +1,98 @@
+import { getArchiveYear, getPostArchive } from "@/lib/mdx";
+import { PostArchive } from "@/components/blog/post-archive";
+import { Badge } from "@/components/ui/badge";
+import { archiveHref } from "@/lib/routes";
+import { formatMonth } from "@/lib/dates";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+
+/**
+ * Generate Static Params
+ * 
+ * One page per year with a published post (served at /blog/[year])
+ */
+export async function generateStaticParams() {
+  return getPostArchive().map(({ year }) => ({
+    year: String(year),
+  }));
+}
+
+/**
+ * Find the archive year for a route param
+ */
+function resolveYear(param: string) {
+  return /^\d{4}$/.test(param) ? getArchiveYear(Number(param)) : null;
+}
+
+/**
+ * Generate Metadata
+ */
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ year: string }>;
+}): Promise<Metadata> {
+  const archiveYear = resolveYear((await params).year);
+
+  if (!archiveYear) {
+    return {
+      title: "Year Not Found",
+    };
+  }
+
+  return {
+    title: `${archiveYear.year} | Blog | Ammly XYZ`,
+    description: `Articles published in ${archiveYear.year}`,
+    alternates: {
+      canonical: archiveHref(archiveYear.year),
+    },
+  };
+}
+
+/**
+ * Year Archive Page
+ * 
+ * Lists published posts dated in a year, with links to each month
+ */
+export default async function YearArchivePage({
+  params,
+}: {
+  params: Promise<{ year: string }>;
+}) {
+  const archiveYear = resolveYear((await params).year);
+
+  if (!archiveYear) {
+    notFound();
+  }
+
+  const { year, months, count } = archiveYear;
+
+  return (
+    <PostArchive
+      eyebrow="Archive"
+      title={String(year)}
+      description={`${count} ${count === 1 ? "article" : "articles"} published in ${year}`}
+      posts={months.flatMap((month) => month.posts)}
+      backHref={archiveHref()}
+      backLabel="Full archive"
+      breadcrumbs={[
+        { name: "Blog", path: "/blog" },
+        { name: "Archive", path: archiveHref() },
+        { name: String(year), path: archiveHref(year) },
+      ]}
+    >
+      {/* Months */}
+      <nav aria-label={`Months of ${year}`} className="flex flex-wrap justify-center gap-2 mb-12">
+        {months.map(({ month, posts }) => (
+          <Link key={month} href={archiveHref(year, month)}>
+            <Badge variant="outline" className="cursor-pointer hover:border-primary-500 hover:text-primary-600 dark:hover:text-primary-400">
+              {formatMonth(month)}
+              <span className="text-muted-foreground">{posts.length}</span>
+            </Badge>
+          </Link>
+        ))}
+      </nav>
+    </PostArchive>
+  );
+}
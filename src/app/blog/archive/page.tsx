@@ -0,0 +1,113 @@
+import { getPostArchive } from "@/lib/mdx";
+import { archiveHref, postHref } from "@/lib/routes";
+import { formatCalendarDate, formatMonth } from "@/lib/dates";
+import { JsonLd } from "@/components/seo";
+import { breadcrumbJsonLd } from "@/lib/structured-data";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Archive | Blog | Ammly XYZ",
+  description: "Every article, by year and month",
+};
+
+/**
+ * Blog Archive Page
+ * 
+ * Compact chronological index: years with their post counts, then
+ * months, then post titles
+ */
+export default function ArchivePage() {
+  const archive = getPostArchive();
+  const total = archive.reduce((sum, year) => sum + year.count, 0);
+
+  return (
+    <main className="min-h-screen py-20 px-4 sm:px-6 lg:px-8">
+      <JsonLd
+        data={breadcrumbJsonLd([
+          { name: "Blog", path: "/blog" },
+          { name: "Archive", path: archiveHref() },
+        ])}
+      />
+      <div className="container mx-auto max-w-3xl">
+        {/* Back Button */}
+        <Link href="/blog" className="inline-block mb-8">
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            All posts
+          </Button>
+        </Link>
+
+        {/* Header */}
+        <div className="text-center mb-12 md:mb-16">
+          <Badge variant="primary" size="lg" className="mb-4">
+            Archive
+          </Badge>
+          <h1 className="text-4xl sm:text-5xl md:text-6xl font-bold tracking-tight mb-4">
+            Every Article
+          </h1>
+          <p className="text-lg md:text-xl text-muted-foreground">
+            {total} {total === 1 ? "article" : "articles"} by date
+          </p>
+        </div>
+
+        {/* Years */}
+        <div className="space-y-12">
+          {archive.map(({ year, months, count }) => (
+            <section key={year} aria-labelledby={`archive-${year}`}>
+              <h2 id={`archive-${year}`} className="flex items-baseline gap-3 border-b border-border pb-2 mb-4">
+                <Link
+                  href={archiveHref(year)}
+                  className="text-2xl font-bold tracking-tight hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                >
+                  {year}
+                </Link>
+                <span className="text-sm text-muted-foreground">
+                  {count} {count === 1 ? "article" : "articles"}
+                </span>
+              </h2>
+
+              <div className="space-y-6">
+                {months.map(({ month, posts }) => (
+                  <div key={month} className="grid gap-2 sm:grid-cols-[10rem_1fr]">
+                    <h3 className="text-sm font-semibold">
+                      <Link
+                        href={archiveHref(year, month)}
+                        className="hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                      >
+                        {formatMonth(month)}
+                      </Link>
+                      <span className="ml-2 font-normal text-muted-foreground">{posts.length}</span>
+                    </h3>
+
+                    <ul className="space-y-1.5">
+                      {posts.map((post) => (
+                        <li key={post.slug} className="flex items-baseline gap-3">
+                          <time
+                            dateTime={post.frontmatter.date}
+                            className="w-14 shrink-0 text-sm tabular-nums text-muted-foreground"
+                          >
+                            {formatCalendarDate(post.frontmatter.date, { month: "short", day: "numeric" })}
+                          </time>
+                          <Link
+                            href={postHref(post.slug)}
+                            className="hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                          >
+                            {post.frontmatter.title}
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      </div>
+    </main>
+  );
+}
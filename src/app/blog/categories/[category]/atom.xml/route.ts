@@ -0,0 +1,19 @@
+import { getAllCategories } from "@/lib/mdx";
+import { getCategoryFeed, feedResponse } from "@/lib/feed";
+
+export const revalidate = 3600;
+
+export async function generateStaticParams() {
+  return getAllCategories().map(({ slug }) => ({ category: slug }));
+}
+
+/**
+ * Category Atom 1.0 Feed
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ category: string }> }
+) {
+  const { category } = await params;
+  return feedResponse(await getCategoryFeed(category), "atom");
+}
@@ -0,0 +1,85 @@
+import { getAllCategories, getPostsByCategory } from "@/lib/mdx";
+import { PostArchive } from "@/components/blog/post-archive";
+import { getPostListing, describeListing, type PostListingParams } from "@/lib/post-listing";
+import { categoryHref, feedPath } from "@/lib/routes";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+
+/**
+ * Generate Static Params
+ * 
+ * One page per category used by a published post
+ */
+export async function generateStaticParams() {
+  return getAllCategories().map((category) => ({
+    category: category.slug,
+  }));
+}
+
+/**
+ * Generate Metadata
+ */
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ category: string } & PostListingParams>;
+}): Promise<Metadata> {
+  const { category: slug, ...listingParams } = await params;
+  const category = getAllCategories().find((c) => c.slug === slug);
+  const listing = category && getPostListing(categoryHref(category.slug), getPostsByCategory(category.slug), listingParams);
+
+  if (!category || !listing) {
+    return {
+      title: "Category Not Found",
+    };
+  }
+
+  return {
+    title: `${category.name}${describeListing(listing)} | Blog | Ammly XYZ`,
+    description: `Articles about ${category.name}`,
+    alternates: {
+      types: {
+        "application/rss+xml": feedPath(categoryHref(category.slug), "rss"),
+        "application/atom+xml": feedPath(categoryHref(category.slug), "atom"),
+        "application/feed+json": feedPath(categoryHref(category.slug), "json"),
+      },
+    },
+  };
+}
+
+/**
+ * Category Archive Page
+ * 
+ * Lists published posts in a category, a page at a time.
+ * Also rendered for the /page/[n], /sorted/[order] and
+ * /sorted/[order]/page/[n] sub-routes.
+ */
+export default async function CategoryPage({
+  params,
+}: {
+  params: Promise<{ category: string } & PostListingParams>;
+}) {
+  const { category: slug, ...listingParams } = await params;
+  const category = getAllCategories().find((c) => c.slug === slug);
+  const listing = category && getPostListing(categoryHref(category.slug), getPostsByCategory(category.slug), listingParams);
+
+  if (!category || !listing) {
+    notFound();
+  }
+
+  return (
+    <PostArchive
+      eyebrow="Category"
+      title={category.name}
+      description={`${category.count} ${category.count === 1 ? "article" : "articles"} in ${category.name}`}
+      posts={listing.page.items}
+      listing={listing}
+      backHref="/blog/tags"
+      backLabel="Browse topics"
+      breadcrumbs={[
+        { name: "Blog", path: "/blog" },
+        { name: category.name, path: categoryHref(category.slug) },
+      ]}
+    />
+  );
+}
@@ -0,0 +1,15 @@
+import { getAllCategories } from "@/lib/mdx";
+import { getListingParams } from "@/lib/post-listing";
+
+export { default, generateMetadata } from "../../page";
+
+/**
+ * Generate Static Params
+ * 
+ * Pages 2 and up of each category archive, newest first
+ */
+export async function generateStaticParams() {
+  return getAllCategories().flatMap((category) =>
+    getListingParams(category.count, "page").map((params) => ({ category: category.slug, ...params }))
+  );
+}
@@ -0,0 +1,15 @@
+import { getAllCategories } from "@/lib/mdx";
+import { getListingParams } from "@/lib/post-listing";
+
+export { default, generateMetadata } from "../../page";
+
+/**
+ * Generate Static Params
+ * 
+ * First page of each category archive in each non-default order
+ */
+export async function generateStaticParams() {
+  return getAllCategories().flatMap((category) =>
+    getListingParams(category.count, "sorted").map((params) => ({ category: category.slug, ...params }))
+  );
+}
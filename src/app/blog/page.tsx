@@ -1,23 +1,59 @@
 import { getAllPosts } from "@/lib/mdx";
+import { getPostListing, describeListing, type PostListingParams } from "@/lib/post-listing";
+import { archiveHref } from "@/lib/routes";
 import { BlogPostList } from "@/components/ui/blog-post-list";
+import { Pagination } from "@/components/blog/pagination";
+import { SortControls } from "@/components/blog/sort-controls";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
-import { ArrowLeft } from "lucide-react";
+import { notFound } from "next/navigation";
+import { ArrowLeft, CalendarDays, Tags } from "lucide-react";
 import type { Metadata } from "next";
 
-export const metadata: Metadata = {
-  title: "Blog | Ammly XYZ",
-  description: "Thoughts on AI, software development, and building products",
-};
+const BLOG_PATH = "/blog";
+
+/**
+ * Generate Metadata
+ * 
+ * Sorted and later pages say so in the title
+ */
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<PostListingParams>;
+}): Promise<Metadata> {
+  const listing = getPostListing(BLOG_PATH, getAllPosts(), await params);
+
+  if (!listing) {
+    return {
+      title: "Page Not Found",
+    };
+  }
+
+  return {
+    title: `Blog${describeListing(listing)} | Ammly XYZ`,
+    description: "Thoughts on AI, software development, and building products",
+  };
+}
 
 /**
  * Blog Index Page
  * 
- * Lists all published blog posts
+ * Lists published posts a page at a time. Also rendered for
+ * /blog/page/[n], /blog/sorted/[order] and /blog/sorted/[order]/page/[n],
+ * which re-export it with their own static params.
  */
-export default function BlogPage() {
-  const posts = getAllPosts();
+export default async function BlogPage({
+  params,
+}: {
+  params: Promise<PostListingParams>;
+}) {
+  const listing = getPostListing(BLOG_PATH, getAllPosts(), await params);
+
+  if (!listing) {
+    notFound();
+  }
 
   return (
     <main className="min-h-screen py-20 px-4 sm:px-6 lg:px-8">
@@ -41,10 +77,30 @@ export default function BlogPage() {
           <p className="text-lg md:text-xl text-muted-foreground max-w-2xl mx-auto">
             Exploring AI, software engineering, and building products that matter
           </p>
+          <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2 mt-6">
+            <Link
+              href="/blog/tags"
+              className="inline-flex items-center gap-2 text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300 font-medium transition-colors"
+            >
+              <Tags className="h-4 w-4" />
+              Browse by topic
+            </Link>
+            <Link
+              href={archiveHref()}
+              className="inline-flex items-center gap-2 text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300 font-medium transition-colors"
+            >
+              <CalendarDays className="h-4 w-4" />
+              Browse by date
+            </Link>
+          </div>
         </div>
 
+        <SortControls listing={listing} />
+
         {/* Blog Posts Grid */}
-        <BlogPostList posts={posts} />
+        <BlogPostList posts={listing.page.items} />
+
+        <Pagination listing={listing} />
       </div>
     </main>
   );
@@ -0,0 +1,73 @@
+import { getAllSeries, getSeriesBySlug } from "@/lib/mdx";
+import { PostArchive } from "@/components/blog/post-archive";
+import { seriesHref } from "@/lib/routes";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+
+// Only series with published parts exist
+export const dynamicParams = false;
+
+/**
+ * Generate Static Params
+ * 
+ * One landing page per series
+ */
+export async function generateStaticParams() {
+  return getAllSeries().map((series) => ({
+    series: series.slug,
+  }));
+}
+
+/**
+ * Generate Metadata
+ */
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ series: string }>;
+}): Promise<Metadata> {
+  const { series: slug } = await params;
+  const series = getSeriesBySlug(slug);
+
+  if (!series) {
+    return {
+      title: "Series Not Found",
+    };
+  }
+
+  return {
+    title: `${series.name} | Blog | Ammly XYZ`,
+    description: `A ${series.posts.length}-part series: ${series.posts[0].frontmatter.description}`,
+  };
+}
+
+/**
+ * Series Landing Page
+ * 
+ * Lists every part of a series in reading order
+ */
+export default async function SeriesPage({
+  params,
+}: {
+  params: Promise<{ series: string }>;
+}) {
+  const { series: slug } = await params;
+  const series = getSeriesBySlug(slug);
+
+  if (!series) {
+    notFound();
+  }
+
+  return (
+    <PostArchive
+      eyebrow="Series"
+      title={series.name}
+      description={`${series.posts.length} ${series.posts.length === 1 ? "part" : "parts"}, best read in order`}
+      posts={series.posts}
+      breadcrumbs={[
+        { name: "Blog", path: "/blog" },
+        { name: series.name, path: seriesHref(series.name) },
+      ]}
+    />
+  );
+}
@@ -0,0 +1,13 @@
+import { getAllPosts } from "@/lib/mdx";
+import { getListingParams } from "@/lib/post-listing";
+
+export { default, generateMetadata } from "../../page";
+
+/**
+ * Generate Static Params
+ * 
+ * First page of the blog index in each non-default order
+ */
+export async function generateStaticParams() {
+  return getListingParams(getAllPosts().length, "sorted");
+}
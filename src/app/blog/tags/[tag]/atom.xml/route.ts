@@ -0,0 +1,19 @@
+import { getAllTags } from "@/lib/mdx";
+import { getTagFeed, feedResponse } from "@/lib/feed";
+
+export const revalidate = 3600;
+
+export async function generateStaticParams() {
+  return getAllTags().map(({ slug }) => ({ tag: slug }));
+}
+
+/**
+ * Tag Atom 1.0 Feed
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ tag: string }> }
+) {
+  const { tag } = await params;
+  return feedResponse(await getTagFeed(tag), "atom");
+}
@@ -0,0 +1,86 @@
+import { getAllTags, getPostsByTag } from "@/lib/mdx";
+import { PostArchive } from "@/components/blog/post-archive";
+import { getPostListing, describeListing, type PostListingParams } from "@/lib/post-listing";
+import { tagHref, feedPath } from "@/lib/routes";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+
+/**
+ * Generate Static Params
+ * 
+ * One page per tag used by a published post
+ */
+export async function generateStaticParams() {
+  return getAllTags().map((tag) => ({
+    tag: tag.slug,
+  }));
+}
+
+/**
+ * Generate Metadata
+ */
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ tag: string } & PostListingParams>;
+}): Promise<Metadata> {
+  const { tag: slug, ...listingParams } = await params;
+  const tag = getAllTags().find((t) => t.slug === slug);
+  const listing = tag && getPostListing(tagHref(tag.slug), getPostsByTag(tag.slug), listingParams);
+
+  if (!tag || !listing) {
+    return {
+      title: "Tag Not Found",
+    };
+  }
+
+  return {
+    title: `${tag.name}${describeListing(listing)} | Blog | Ammly XYZ`,
+    description: `Articles tagged ${tag.name}`,
+    alternates: {
+      types: {
+        "application/rss+xml": feedPath(tagHref(tag.slug), "rss"),
+        "application/atom+xml": feedPath(tagHref(tag.slug), "atom"),
+        "application/feed+json": feedPath(tagHref(tag.slug), "json"),
+      },
+    },
+  };
+}
+
+/**
+ * Tag Archive Page
+ * 
+ * Lists published posts carrying a tag, a page at a time.
+ * Also rendered for the /page/[n], /sorted/[order] and
+ * /sorted/[order]/page/[n] sub-routes.
+ */
+export default async function TagPage({
+  params,
+}: {
+  params: Promise<{ tag: string } & PostListingParams>;
+}) {
+  const { tag: slug, ...listingParams } = await params;
+  const tag = getAllTags().find((t) => t.slug === slug);
+  const listing = tag && getPostListing(tagHref(tag.slug), getPostsByTag(tag.slug), listingParams);
+
+  if (!tag || !listing) {
+    notFound();
+  }
+
+  return (
+    <PostArchive
+      eyebrow="Tag"
+      title={tag.name}
+      description={`${tag.count} ${tag.count === 1 ? "article" : "articles"} tagged ${tag.name}`}
+      posts={listing.page.items}
+      listing={listing}
+      backHref="/blog/tags"
+      backLabel="All tags"
+      breadcrumbs={[
+        { name: "Blog", path: "/blog" },
+        { name: "Tags", path: "/blog/tags" },
+        { name: tag.name, path: tagHref(tag.slug) },
+      ]}
+    />
+  );
+}
@@ -0,0 +1,15 @@
+import { getAllTags } from "@/lib/mdx";
+import { getListingParams } from "@/lib/post-listing";
+
+export { default, generateMetadata } from "../../page";
+
+/**
+ * Generate Static Params
+ * 
+ * Pages 2 and up of each tag archive, newest first
+ */
+export async function generateStaticParams() {
+  return getAllTags().flatMap((tag) =>
+    getListingParams(tag.count, "page").map((params) => ({ tag: tag.slug, ...params }))
+  );
+}
@@ -0,0 +1,91 @@
+import { getAllTags, getAllCategories } from "@/lib/mdx";
+import { TagBadge, CategoryBadge } from "@/components/blog/taxonomy-badge";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Topics | Blog | Ammly XYZ",
+  description: "Browse articles by tag and category",
+};
+
+/**
+ * Tag cloud size classes, smallest to largest
+ */
+const cloudSizes = ["text-sm", "text-base", "text-lg", "text-xl"];
+
+/**
+ * Tag Index Page
+ * 
+ * Category list plus a tag cloud weighted by post count
+ */
+export default function TagsPage() {
+  const tags = getAllTags();
+  const categories = getAllCategories();
+  const maxCount = Math.max(1, ...tags.map((tag) => tag.count));
+
+  return (
+    <main className="min-h-screen py-20 px-4 sm:px-6 lg:px-8">
+      <div className="container mx-auto max-w-4xl">
+        {/* Back Button */}
+        <Link href="/blog" className="inline-block mb-8">
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            All posts
+          </Button>
+        </Link>
+
+        {/* Header */}
+        <div className="text-center mb-12 md:mb-16">
+          <Badge variant="primary" size="lg" className="mb-4">
+            Topics
+          </Badge>
+          <h1 className="text-4xl sm:text-5xl md:text-6xl font-bold tracking-tight mb-4">
+            Browse by Topic
+          </h1>
+          <p className="text-lg md:text-xl text-muted-foreground max-w-2xl mx-auto">
+            {tags.length} tags across {categories.length} categories
+          </p>
+        </div>
+
+        {/* Categories */}
+        <Card className="p-6 mb-8">
+          <h2 className="text-lg font-semibold mb-4">Categories</h2>
+          <div className="flex flex-wrap gap-3">
+            {categories.map((category) => (
+              <CategoryBadge
+                key={category.slug}
+                category={category.name}
+                count={category.count}
+                size="lg"
+              />
+            ))}
+          </div>
+        </Card>
+
+        {/* Tag Cloud */}
+        <Card className="p-6">
+          <h2 className="text-lg font-semibold mb-4">Tags</h2>
+          <div className="flex flex-wrap items-center gap-3">
+            {tags.map((tag) => {
+              const weight = Math.round(((tag.count - 1) / Math.max(1, maxCount - 1)) * (cloudSizes.length - 1));
+              return (
+                <TagBadge
+                  key={tag.slug}
+                  tag={tag.name}
+                  count={tag.count}
+                  size="lg"
+                  className={cn(cloudSizes[weight])}
+                />
+              );
+            })}
+          </div>
+        </Card>
+      </div>
+    </main>
+  );
+}
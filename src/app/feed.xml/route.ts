@@ -0,0 +1,12 @@
+import { getBlogFeed, feedResponse } from "@/lib/feed";
+
+export const dynamic = "force-static";
+// Regenerate hourly so scheduled posts appear on their publication date
+export const revalidate = 3600;
+
+/**
+ * Blog RSS 2.0 Feed
+ */
+export async function GET() {
+  return feedResponse(await getBlogFeed(), "rss");
+}
@@ -1,5 +1,9 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono, Inter } from "next/font/google";
+import { siteConfig } from "@/lib/site";
+import { feedPath } from "@/lib/routes";
+import { isPreviewEnabled } from "@/lib/preview";
+import { PreviewBanner } from "@/components/layout";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -18,22 +22,45 @@ const inter = Inter({
   weight: ["300", "400", "500", "600", "700", "800"],
 });
 
+// Re-render hourly so scheduled posts go live without a deploy
+export const revalidate = 3600;
+
 export const metadata: Metadata = {
-  title: "Ammly",
-  description: "Full-stack software engineer specializing in AI/ML systems, distributed architecture, and cloud-native solutions. Building scalable applications with Python, TypeScript, Laravel and modern web technologies.",
+  metadataBase: new URL(siteConfig.url),
+  title: siteConfig.name,
+  description: siteConfig.description,
+  openGraph: {
+    siteName: siteConfig.name,
+    type: "website",
+    url: siteConfig.url,
+  },
+  twitter: {
+    card: "summary_large_image",
+  },
+  alternates: {
+    // Advertise blog feeds to readers and aggregators
+    types: {
+      "application/rss+xml": [{ url: feedPath("", "rss"), title: `${siteConfig.name} | Blog (RSS)` }],
+      "application/atom+xml": [{ url: feedPath("", "atom"), title: `${siteConfig.name} | Blog (Atom)` }],
+      "application/feed+json": [{ url: feedPath("", "json"), title: `${siteConfig.name} | Blog (JSON Feed)` }],
+    },
+  },
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const preview = await isPreviewEnabled();
+
   return (
     <html lang="en" suppressHydrationWarning>
       <body
         className={`${geistSans.variable} ${geistMono.variable} ${inter.variable} antialiased`}
       >
         {children}
+        {preview && <PreviewBanner />}
       </body>
     </html>
   );
@@ -0,0 +1,27 @@
+import { ImageResponse } from "next/og";
+import { OgCard } from "@/components/og";
+import { ogImageSize, ogImageContentType } from "@/lib/og";
+import { siteConfig } from "@/lib/site";
+
+export const alt = `${siteConfig.author.name} | Full-stack software engineer`;
+export const size = ogImageSize;
+export const contentType = ogImageContentType;
+
+/**
+ * Site Open Graph Image
+ *
+ * Default share card for the home page and any route without its own
+ */
+export default function Image() {
+  return new ImageResponse(
+    (
+      <OgCard
+        eyebrow="Full-stack software engineer"
+        title={siteConfig.author.name}
+        description={siteConfig.description}
+        tags={["AI/ML", "Distributed systems", "Cloud-native"]}
+      />
+    ),
+    size
+  );
+}
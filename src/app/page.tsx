@@ -1,9 +1,17 @@
 import { Navigation } from "@/components/layout";
 import { HeroSection, VenturesSection, ExperienceTimeline, BlogSection, ContactSection } from "@/components/sections";
+import { JsonLd } from "@/components/seo";
+import { getAuthorBySlug } from "@/lib/authors";
+import { getAllExperiences } from "@/lib/experiences";
+import { personJsonLd } from "@/lib/structured-data";
+import { siteConfig } from "@/lib/site";
 
 export default function Home() {
+  const person = personJsonLd(getAuthorBySlug(siteConfig.author.slug), getAllExperiences());
+
   return (
     <div className="min-h-screen bg-background">
+      <JsonLd data={person} />
       <Navigation />
       <main>
         <HeroSection />
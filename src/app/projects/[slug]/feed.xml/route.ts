@@ -0,0 +1,20 @@
+import { getAllVentures } from "@/lib/ventures";
+import { getVentureFeed, feedResponse } from "@/lib/feed";
+
+export const dynamicParams = false;
+export const revalidate = 3600;
+
+export async function generateStaticParams() {
+  return getAllVentures().map(({ slug }) => ({ slug }));
+}
+
+/**
+ * Venture Changelog RSS 2.0 Feed
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  return feedResponse(getVentureFeed(slug), "rss");
+}
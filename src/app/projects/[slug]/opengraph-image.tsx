@@ -0,0 +1,42 @@
+import { ImageResponse } from "next/og";
+import { notFound } from "next/navigation";
+import { OgCard } from "@/components/og";
+import { getVentureBySlug, isVenturePublic, toVenture } from "@/lib/ventures";
+import { getViewableEntry } from "@/lib/preview";
+import { loadOgCover, ogImageSize, ogImageContentType } from "@/lib/og";
+
+export const alt = "Project";
+export const size = ogImageSize;
+export const contentType = ogImageContentType;
+
+/**
+ * Venture Open Graph Image
+ *
+ * Share card with the venture's name, status and stack, drawn over the
+ * cover image when the venture has one
+ */
+export default async function Image({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const entry = await getViewableEntry(getVentureBySlug(slug), isVenturePublic);
+
+  if (!entry) {
+    notFound();
+  }
+
+  const venture = toVenture(entry);
+  const cover = await loadOgCover(venture.coverImage);
+
+  return new ImageResponse(
+    (
+      <OgCard
+        eyebrow="Project"
+        title={venture.name}
+        description={venture.description}
+        tags={venture.technologies}
+        status={venture.status}
+        cover={cover}
+      />
+    ),
+    size
+  );
+}
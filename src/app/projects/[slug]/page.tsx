@@ -1,79 +1,127 @@
-import { getAllVentures, getVentureBySlug } from "@/lib/ventures";
+import { getAllVentures, getVentureBySlug, isVenturePublic, toVenture } from "@/lib/ventures";
+import { getViewableEntry } from "@/lib/preview";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import Link from "next/link";
 import Image from "next/image";
-import { ArrowLeft, ExternalLink, Github, TrendingUp, Zap, Users } from "lucide-react";
-import { MDXRemote } from "next-mdx-remote/rsc";
+import { ArrowLeft, BookOpen, ExternalLink, Github, MonitorPlay, Rss } from "lucide-react";
+import { MdxContent } from "@/components/mdx";
 import { notFound } from "next/navigation";
-import { statusConfig } from "@/types/venture";
+import { linkConfig, statusConfig, type VentureLinkType } from "@/types/venture";
+import { ventureLinkTypes } from "@/lib/schemas";
+import { RelatedReading } from "@/components/content/related-reading";
+import { getRelatedContent } from "@/lib/related";
+import { JsonLd } from "@/components/seo";
+import { breadcrumbJsonLd, ventureJsonLd } from "@/lib/structured-data";
+import { feedPath, projectHref } from "@/lib/routes";
+import { formatMetric } from "@/lib/metrics";
+import { formatCalendarDate } from "@/lib/dates";
+import { MetricIcon } from "@/components/ui/metric-icon";
+import { Sparkline, TrendChart } from "@/components/charts";
+import { MilestoneTimeline } from "@/components/ventures/milestone-timeline";
 
 /**
- * Generate static paths for all ventures
+ * Generate static paths for published ventures
+ * 
+ * Drafts render on demand and 404 unless draft mode is enabled
  */
 export async function generateStaticParams() {
-  const ventures = getAllVentures();
-  return ventures.map((venture) => ({
+  return getAllVentures().map((venture) => ({
     slug: venture.slug,
   }));
 }
 
 /**
  * Generate metadata for SEO
+ *
+ * The share image comes from opengraph-image.tsx
  */
 export async function generateMetadata({ params }: { params: Promise<{ slug: string }> }) {
   const { slug } = await params;
-  const venture = getVentureBySlug(slug);
+  const entry = await getViewableEntry(getVentureBySlug(slug), isVenturePublic);
   
-  if (!venture) {
+  if (!entry) {
     return {
       title: "Project Not Found",
     };
   }
 
+  const venture = toVenture(entry);
+
   return {
-    title: `${venture.frontmatter.title} | Ammly XYZ`,
-    description: venture.frontmatter.description,
+    title: `${venture.name} | Ammly XYZ`,
+    description: venture.description,
+    openGraph: {
+      title: venture.name,
+      description: venture.description,
+      type: "website",
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: venture.name,
+      description: venture.description,
+    },
+    alternates: {
+      types: {
+        "application/rss+xml": feedPath(projectHref(venture.slug), "rss"),
+        "application/atom+xml": feedPath(projectHref(venture.slug), "atom"),
+        "application/feed+json": feedPath(projectHref(venture.slug), "json"),
+      },
+    },
   };
 }
 
+/**
+ * Icon for each link type
+ */
+const linkIcons: Record<VentureLinkType, typeof ExternalLink> = {
+  live: ExternalLink,
+  demo: MonitorPlay,
+  source: Github,
+  docs: BookOpen,
+};
+
 export default async function ProjectPage({ params }: { params: Promise<{ slug: string }> }) {
   const { slug } = await params;
-  const venture = getVentureBySlug(slug);
+  const entry = await getViewableEntry(getVentureBySlug(slug), isVenturePublic);
 
-  if (!venture) {
+  if (!entry) {
     notFound();
   }
 
-  const statusInfo = statusConfig[venture.frontmatter.status];
-
-  // Get metrics for display
-  const metrics = Object.entries(venture.frontmatter.metrics || {}).map(([key, value]) => {
-    const label = key.charAt(0).toUpperCase() + key.slice(1);
-    const iconMapping: Record<string, typeof TrendingUp> = {
-      users: Users,
-      accuracy: TrendingUp,
-      speed: Zap,
-      farmers: Users,
-      consultations: Users,
-      students: Users,
-      improvement: TrendingUp,
-    };
-    const Icon = iconMapping[key.toLowerCase()] || TrendingUp;
-    
-    return { label, value: String(value), Icon };
+  const venture = toVenture(entry);
+  const statusInfo = statusConfig[venture.status];
+  const related = getRelatedContent("venture", slug);
+
+  // Metrics with a history to chart
+  const trends = venture.metrics.filter((metric) => metric.series.length > 1);
+
+  // Links in display order
+  const links = ventureLinkTypes.flatMap((type) => {
+    const href = venture.links[type];
+    return href ? [{ type, href, Icon: linkIcons[type], label: linkConfig[type].label }] : [];
   });
 
+  // Structured data (missing required fields fail the build)
+  const structuredData = [
+    ventureJsonLd(venture),
+    breadcrumbJsonLd([
+      { name: "Projects", path: "/all-projects" },
+      { name: venture.name, path: projectHref(slug) },
+    ]),
+  ];
+
   return (
     <div className="min-h-screen bg-background">
+      <JsonLd data={structuredData} />
       {/* Hero Section with Cover Image */}
       <div className="relative h-[60vh] min-h-[400px] w-full overflow-hidden bg-linear-to-br from-primary-500/20 to-primary-600/30">
-        {venture.frontmatter.coverImage && (
+        {venture.coverImage && (
           <>
             <Image
-              src={venture.frontmatter.coverImage}
-              alt={venture.frontmatter.title}
+              src={venture.coverImage}
+              alt={venture.name}
               fill
               className="object-cover"
               priority
@@ -99,10 +147,10 @@ export default async function ProjectPage({ params }: { params: Promise<{ slug:
               {statusInfo.label}
             </Badge>
             <h1 className="text-4xl md:text-5xl lg:text-6xl font-bold text-white mb-4">
-              {venture.frontmatter.title}
+              {venture.name}
             </h1>
             <p className="text-xl text-white/90 max-w-3xl">
-              {venture.frontmatter.description}
+              {venture.description}
             </p>
           </div>
         </div>
@@ -114,21 +162,29 @@ export default async function ProjectPage({ params }: { params: Promise<{ slug:
           {/* Sidebar */}
           <div className="lg:col-span-1 space-y-6">
             {/* Metrics */}
-            {metrics.length > 0 && (
+            {venture.metrics.length > 0 && (
               <Card>
                 <CardContent className="p-6">
                   <h3 className="text-lg font-semibold mb-4">Key Metrics</h3>
-                  <div className="space-y-4">
-                    {metrics.map((metric, idx) => (
-                      <div key={idx} className="flex items-center justify-between">
-                        <div className="flex items-center gap-2 text-muted-foreground">
-                          <metric.Icon className="h-4 w-4" />
+                  <dl className="space-y-4">
+                    {venture.metrics.map((metric) => (
+                      <div key={metric.label} className="flex items-center justify-between gap-4">
+                        <dt className="flex items-center gap-2 text-muted-foreground">
+                          <MetricIcon icon={metric.icon} className="h-4 w-4" />
                           <span className="text-sm">{metric.label}</span>
-                        </div>
-                        <span className="text-lg font-semibold">{metric.value}</span>
+                        </dt>
+                        <dd className="text-right">
+                          <span className="block text-lg font-semibold">{formatMetric(metric)}</span>
+                          <Sparkline metric={metric} className="ml-auto block" />
+                          {metric.asOf && (
+                            <span className="block text-xs text-muted-foreground">
+                              as of {formatCalendarDate(metric.asOf, { month: "short", year: "numeric" })}
+                            </span>
+                          )}
+                        </dd>
                       </div>
                     ))}
-                  </div>
+                  </dl>
                 </CardContent>
               </Card>
             )}
@@ -138,7 +194,7 @@ export default async function ProjectPage({ params }: { params: Promise<{ slug:
               <CardContent className="p-6">
                 <h3 className="text-lg font-semibold mb-4">Tech Stack</h3>
                 <div className="flex flex-wrap gap-2">
-                  {venture.frontmatter.technologies.map((tech, idx) => (
+                  {venture.technologies.map((tech, idx) => (
                     <Badge key={idx} variant="outline" className="bg-muted/50">
                       {tech}
                     </Badge>
@@ -148,44 +204,67 @@ export default async function ProjectPage({ params }: { params: Promise<{ slug:
             </Card>
 
             {/* Links */}
-            <Card>
-              <CardContent className="p-6 space-y-3">
-                {venture.frontmatter.link && (
-                  <a href={venture.frontmatter.link} target="_blank" rel="noopener noreferrer" className="block">
-                    <Button variant="outline" size="sm" className="w-full">
-                      <ExternalLink className="h-4 w-4 mr-2" />
-                      View Live Project
-                    </Button>
-                  </a>
-                )}
-                {venture.frontmatter.github && (
-                  <a href={venture.frontmatter.github} target="_blank" rel="noopener noreferrer" className="block">
-                    <Button variant="outline" size="sm" className="w-full">
-                      <Github className="h-4 w-4 mr-2" />
-                      View Source Code
-                    </Button>
-                  </a>
-                )}
-              </CardContent>
-            </Card>
+            {links.length > 0 && (
+              <Card>
+                <CardContent className="p-6 space-y-3">
+                  {links.map((link) => (
+                    <a key={link.type} href={link.href} target="_blank" rel="noopener noreferrer" className="block">
+                      <Button variant="outline" size="sm" className="w-full">
+                        <link.Icon className="h-4 w-4 mr-2" />
+                        {link.label}
+                      </Button>
+                    </a>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Content */}
           <div className="lg:col-span-2">
             <article className="prose prose-neutral dark:prose-invert max-w-none">
-              <MDXRemote source={venture.content} />
+              <MdxContent source={entry.content} collection="ventures" />
             </article>
 
+            {/* Milestones */}
+            {venture.milestones.length > 0 && (
+              <section className="mt-12" aria-labelledby="milestones">
+                <div className="flex flex-wrap items-baseline justify-between gap-4 mb-6">
+                  <h2 id="milestones" className="text-2xl font-bold">Milestones</h2>
+                  <a
+                    href={feedPath(projectHref(venture.slug), "rss")}
+                    className="inline-flex items-center gap-2 text-sm text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300 font-medium transition-colors"
+                  >
+                    <Rss className="h-4 w-4" />
+                    Follow updates
+                  </a>
+                </div>
+                <MilestoneTimeline milestones={venture.milestones} />
+              </section>
+            )}
+
+            {/* Traction */}
+            {trends.length > 0 && (
+              <section className="mt-12" aria-labelledby="traction">
+                <h2 id="traction" className="text-2xl font-bold mb-6">Traction</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {trends.map((metric) => (
+                    <TrendChart key={metric.label} metric={metric} />
+                  ))}
+                </div>
+              </section>
+            )}
+
             {/* Screenshots Gallery */}
-            {venture.frontmatter.screenshots && venture.frontmatter.screenshots.length > 0 && (
+            {venture.screenshots.length > 0 && (
               <div className="mt-12">
                 <h2 className="text-2xl font-bold mb-6">Screenshots</h2>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {venture.frontmatter.screenshots.map((screenshot, idx) => (
+                  {venture.screenshots.map((screenshot, idx) => (
                     <div key={idx} className="relative aspect-video rounded-lg overflow-hidden border">
                       <Image
                         src={screenshot}
-                        alt={`${venture.frontmatter.title} screenshot ${idx + 1}`}
+                        alt={`${venture.name} screenshot ${idx + 1}`}
                         fill
                         className="object-cover"
                       />
@@ -194,6 +273,9 @@ export default async function ProjectPage({ params }: { params: Promise<{ slug:
                 </div>
               </div>
             )}
+
+            {/* Related Reading */}
+            <RelatedReading items={related} />
           </div>
         </div>
       </div>
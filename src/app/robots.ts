@@ -0,0 +1,18 @@
+import type { MetadataRoute } from "next";
+import { absoluteUrl, siteConfig } from "@/lib/site";
+
+/**
+ * robots.txt
+ * 
+ * Everything is crawlable; crawlers are pointed at the sitemap index
+ */
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: "*",
+      allow: "/",
+    },
+    sitemap: absoluteUrl("/sitemap.xml"),
+    host: siteConfig.url,
+  };
+}
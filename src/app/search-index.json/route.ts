@@ -0,0 +1,15 @@
+import { getSearchDocuments } from "@/lib/search/documents";
+
+export const dynamic = "force-static";
+// Regenerate hourly so scheduled posts appear on their publication date
+export const revalidate = 3600;
+
+/**
+ * Search Index
+ * 
+ * Every searchable document, generated at build time and
+ * loaded by the search dialog on first open
+ */
+export async function GET() {
+  return Response.json(getSearchDocuments());
+}
@@ -0,0 +1,177 @@
+import { getSearchDocuments } from "@/lib/search/documents";
+import { searchDocuments } from "@/lib/search/engine";
+import type { FacetCount, SearchFacet, SearchFilters } from "@/lib/search/types";
+import { SearchResultItem, searchTypeConfig } from "@/components/search/search-result-item";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import Link from "next/link";
+import { ArrowLeft, Search } from "lucide-react";
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Search | Ammly XYZ",
+  description: "Search articles, ventures and experience",
+  robots: { index: false },
+};
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+/**
+ * Read a single query string value
+ */
+function param(params: SearchParams, key: string): string | undefined {
+  const value = params[key];
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+}
+
+/**
+ * Build a /search URL, dropping empty values
+ */
+function searchHref(query: string, filters: SearchFilters): string {
+  const params = new URLSearchParams();
+  if (query) params.set("q", query);
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  const search = params.toString();
+  return search ? `/search?${search}` : "/search";
+}
+
+const facetLabels: Record<SearchFacet, string> = {
+  type: "Type",
+  category: "Category",
+  status: "Status",
+};
+
+/**
+ * Search Page
+ * 
+ * Rendered on the server from the query string, so results and facet
+ * filters are plain links and forms that work without JavaScript
+ */
+export default async function SearchPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const params = await searchParams;
+  const query = param(params, "q") ?? "";
+  const filters: SearchFilters = {
+    type: param(params, "type"),
+    category: param(params, "category"),
+    status: param(params, "status"),
+  };
+
+  const { results, terms, facets } = searchDocuments(getSearchDocuments(), query, filters);
+
+  const facetLabel = (facet: SearchFacet, facetValue: FacetCount) =>
+    facet === "type"
+      ? searchTypeConfig[facetValue.value as keyof typeof searchTypeConfig]?.label ?? facetValue.value
+      : facetValue.value;
+
+  return (
+    <main className="min-h-screen py-20 px-4 sm:px-6 lg:px-8">
+      <div className="container mx-auto max-w-5xl">
+        {/* Back Button */}
+        <Link href="/" className="inline-block mb-8">
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Home
+          </Button>
+        </Link>
+
+        {/* Header */}
+        <div className="text-center mb-10">
+          <Badge variant="primary" size="lg" className="mb-4">
+            Search
+          </Badge>
+          <h1 className="text-4xl sm:text-5xl font-bold tracking-tight mb-6">
+            Search the site
+          </h1>
+
+          <form action="/search" method="get" role="search" className="flex gap-2 max-w-2xl mx-auto">
+            {Object.entries(filters).map(([key, value]) =>
+              value ? <input key={key} type="hidden" name={key} value={value} /> : null
+            )}
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <input
+                type="search"
+                name="q"
+                defaultValue={query}
+                placeholder="Articles, ventures, technologies..."
+                aria-label="Search query"
+                autoFocus
+                className="h-11 w-full rounded-base border border-input bg-background pl-9 pr-3 text-base focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+            </div>
+            <Button type="submit">Search</Button>
+          </form>
+        </div>
+
+        {query ? (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
+            {/* Facets */}
+            <aside className="space-y-6">
+              {(Object.keys(facetLabels) as SearchFacet[]).map((facet) =>
+                facets[facet].length > 0 ? (
+                  <div key={facet}>
+                    <h2 className="text-sm font-semibold mb-2">{facetLabels[facet]}</h2>
+                    <ul className="space-y-1">
+                      {facets[facet].map((facetValue) => {
+                        const selected = filters[facet] === facetValue.value;
+                        return (
+                          <li key={facetValue.value}>
+                            <Link
+                              href={searchHref(query, {
+                                ...filters,
+                                [facet]: selected ? undefined : facetValue.value,
+                              })}
+                              aria-current={selected ? "true" : undefined}
+                              className={cn(
+                                "flex items-center justify-between rounded-base px-2 py-1 text-sm transition-colors hover:bg-muted",
+                                selected && "bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300 font-medium"
+                              )}
+                            >
+                              <span>{facetLabel(facet, facetValue)}</span>
+                              <span className="text-muted-foreground">{facetValue.count}</span>
+                            </Link>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                ) : null
+              )}
+            </aside>
+
+            {/* Results */}
+            <section className="md:col-span-3" aria-live="polite">
+              <p className="text-sm text-muted-foreground mb-4">
+                {results.length} {results.length === 1 ? "result" : "results"} for &ldquo;{query}&rdquo;
+              </p>
+              {results.length > 0 ? (
+                <Card className="p-2 divide-y divide-border">
+                  {results.map((result) => (
+                    <SearchResultItem key={result.document.id} result={result} terms={terms} />
+                  ))}
+                </Card>
+              ) : (
+                <p className="text-lg text-muted-foreground py-12 text-center">
+                  Nothing matched. Try fewer or different words.
+                </p>
+              )}
+            </section>
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground">
+            Tip: press <kbd className="rounded border border-border px-1.5 py-0.5 text-xs font-mono">⌘K</kbd> or{" "}
+            <kbd className="rounded border border-border px-1.5 py-0.5 text-xs font-mono">/</kbd> anywhere on the home page to search.
+          </p>
+        )}
+      </div>
+    </main>
+  );
+}
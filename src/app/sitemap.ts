@@ -0,0 +1,23 @@
+import type { MetadataRoute } from "next";
+import { getSitemapChunk, getSitemapCount } from "@/lib/sitemap";
+
+// Pick up scheduled posts on their publication date
+export const revalidate = 3600;
+
+/**
+ * Sitemap Files
+ * 
+ * Split into /sitemap/[id].xml files so no file exceeds the protocol limit.
+ * /sitemap.xml is the index pointing at each of them.
+ */
+export async function generateSitemaps() {
+  return Array.from({ length: getSitemapCount() }, (_, id) => ({ id }));
+}
+
+export default async function sitemap({
+  id,
+}: {
+  id: Promise<string>;
+}): Promise<MetadataRoute.Sitemap> {
+  return getSitemapChunk(Number(await id));
+}
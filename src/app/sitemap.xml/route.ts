@@ -0,0 +1,30 @@
+import { getSitemapCount, sitemapPath } from "@/lib/sitemap";
+import { absoluteUrl } from "@/lib/site";
+
+export const dynamic = "force-static";
+// Regenerate hourly so scheduled posts appear on their publication date
+export const revalidate = 3600;
+
+/**
+ * Sitemap Index
+ * 
+ * Lists every sitemap file produced by app/sitemap.ts
+ */
+export async function GET() {
+  const sitemaps = Array.from({ length: getSitemapCount() }, (_, id) =>
+    `  <sitemap>\n    <loc>${absoluteUrl(sitemapPath(id))}</loc>\n  </sitemap>`
+  );
+
+  const body = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps,
+    "</sitemapindex>",
+  ].join("\n");
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/xml; charset=utf-8",
+    },
+  });
+}
@@ -0,0 +1,118 @@
+import Link from "next/link";
+import Image from "next/image";
+import { cn } from "@/lib/utils";
+import { authorHref } from "@/lib/routes";
+import type { Author } from "@/lib/authors";
+
+const avatarSizes = {
+  sm: { className: "h-8 w-8 text-sm", pixels: 32 },
+  md: { className: "h-12 w-12 text-lg", pixels: 48 },
+  lg: { className: "h-24 w-24 text-4xl", pixels: 96 },
+} as const;
+
+/**
+ * AuthorAvatar Props
+ */
+interface AuthorAvatarProps {
+  author: Author;
+  /** Avatar size */
+  size?: keyof typeof avatarSizes;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Author Avatar
+ *
+ * Profile image, or the author's initials when no avatar is set.
+ * Remote avatar hosts must be listed in next.config images.remotePatterns.
+ */
+export function AuthorAvatar({ author, size = "md", className }: AuthorAvatarProps) {
+  const { name, avatar } = author.frontmatter;
+  const { className: sizeClassName, pixels } = avatarSizes[size];
+
+  if (avatar) {
+    return (
+      <Image
+        src={avatar}
+        alt={name}
+        width={pixels}
+        height={pixels}
+        className={cn("shrink-0 rounded-full object-cover", sizeClassName, className)}
+      />
+    );
+  }
+
+  const initials = name
+    .split(/\s+/)
+    .slice(0, 2)
+    .map((part) => part.charAt(0).toUpperCase())
+    .join("");
+
+  return (
+    <div
+      aria-hidden="true"
+      className={cn(
+        "shrink-0 rounded-full bg-primary-100 dark:bg-primary-900/30 flex items-center justify-center text-primary-600 dark:text-primary-400 font-bold",
+        sizeClassName,
+        className
+      )}
+    >
+      {initials}
+    </div>
+  );
+}
+
+/**
+ * AuthorByline Props
+ */
+interface AuthorBylineProps {
+  /** Post authors in byline order */
+  authors: Author[];
+  /** Extra metadata under the names (date, reading time, ...) */
+  children?: React.ReactNode;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Author Byline
+ *
+ * Overlapping avatars with linked author names and roles.
+ * Co-authors are joined as "A, B & C".
+ */
+export function AuthorByline({ authors, children, className }: AuthorBylineProps) {
+  const roles = [...new Set(authors.map((author) => author.frontmatter.role))];
+
+  return (
+    <div className={cn("flex items-start gap-4", className)}>
+      {/* Avatars */}
+      <div className="flex shrink-0 -space-x-3">
+        {authors.map((author) => (
+          <AuthorAvatar key={author.slug} author={author} className="ring-2 ring-background" />
+        ))}
+      </div>
+
+      {/* Names, Roles & Metadata */}
+      <div className="flex-1 space-y-2">
+        <div>
+          <div className="font-semibold text-foreground">
+            {authors.map((author, index) => (
+              <span key={author.slug}>
+                {index > 0 && (index === authors.length - 1 ? " & " : ", ")}
+                <Link
+                  href={authorHref(author.slug)}
+                  className="hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                >
+                  {author.frontmatter.name}
+                </Link>
+              </span>
+            ))}
+          </div>
+          <div className="text-sm text-muted-foreground">{roles.join(" · ")}</div>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import Link from "next/link";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { buttonVariants } from "@/components/ui/button";
+import { getPageRange } from "@/lib/pagination";
+import { listingHref } from "@/lib/routes";
+import { cn } from "@/lib/utils";
+import type { PostListing } from "@/lib/post-listing";
+
+/**
+ * Pagination Props
+ */
+interface PaginationProps {
+  /** Current listing page */
+  listing: PostListing;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Pagination
+ *
+ * Previous/next and numbered page links for a post listing. Plain links,
+ * so every page is reachable without JavaScript; the current order is
+ * kept when moving between pages.
+ */
+export function Pagination({ listing, className }: PaginationProps) {
+  const { basePath, order, page: { page, totalPages } } = listing;
+
+  if (totalPages <= 1) return null;
+
+  const pageHref = (target: number) => listingHref(basePath, { order, page: target });
+  const disabledClass = "pointer-events-none opacity-50";
+
+  return (
+    <nav aria-label="Pagination" className={cn("mt-12 flex items-center justify-center gap-2", className)}>
+      {page > 1 ? (
+        <Link href={pageHref(page - 1)} rel="prev" className={buttonVariants({ variant: "outline", size: "sm" })}>
+          <ChevronLeft className="h-4 w-4" />
+          Previous
+        </Link>
+      ) : (
+        <span aria-disabled="true" className={cn(buttonVariants({ variant: "outline", size: "sm" }), disabledClass)}>
+          <ChevronLeft className="h-4 w-4" />
+          Previous
+        </span>
+      )}
+
+      <ol className="hidden sm:flex items-center gap-1">
+        {getPageRange(page, totalPages).map((item, index) =>
+          item === "ellipsis" ? (
+            <li key={`ellipsis-${index}`} aria-hidden="true" className="px-2 text-muted-foreground">
+              …
+            </li>
+          ) : (
+            <li key={item}>
+              <Link
+                href={pageHref(item)}
+                aria-label={`Page ${item}`}
+                aria-current={item === page ? "page" : undefined}
+                className={buttonVariants({ variant: item === page ? "primary" : "ghost", size: "icon" })}
+              >
+                {item}
+              </Link>
+            </li>
+          )
+        )}
+      </ol>
+
+      <span className="sm:hidden text-sm text-muted-foreground">
+        Page {page} of {totalPages}
+      </span>
+
+      {page < totalPages ? (
+        <Link href={pageHref(page + 1)} rel="next" className={buttonVariants({ variant: "outline", size: "sm" })}>
+          Next
+          <ChevronRight className="h-4 w-4" />
+        </Link>
+      ) : (
+        <span aria-disabled="true" className={cn(buttonVariants({ variant: "outline", size: "sm" }), disabledClass)}>
+          Next
+          <ChevronRight className="h-4 w-4" />
+        </span>
+      )}
+    </nav>
+  );
+}
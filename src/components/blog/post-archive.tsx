@@ -0,0 +1,91 @@
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { BlogPostList } from "@/components/ui/blog-post-list";
+import { JsonLd } from "@/components/seo";
+import { Pagination } from "@/components/blog/pagination";
+import { SortControls } from "@/components/blog/sort-controls";
+import { breadcrumbJsonLd, type Breadcrumb } from "@/lib/structured-data";
+import type { PostListing } from "@/lib/post-listing";
+import type { BlogPost } from "@/types/blog";
+
+/**
+ * PostArchive Props
+ */
+interface PostArchiveProps {
+  /** Small label above the title (e.g. "Tag") */
+  eyebrow: string;
+  /** Page heading */
+  title: string;
+  /** Supporting text under the heading */
+  description?: string;
+  /** Posts to list (the current page when paginated) */
+  posts: BlogPost[];
+  /** Sorted, paginated listing; adds sort and page controls */
+  listing?: PostListing;
+  /** Back link target */
+  backHref?: string;
+  /** Back link label */
+  backLabel?: string;
+  /** Trail after Home, ending with this page, emitted as a BreadcrumbList */
+  breadcrumbs: Breadcrumb[];
+  /** Extra content rendered between the header and the post grid */
+  children?: React.ReactNode;
+}
+
+/**
+ * Post Archive
+ * 
+ * Shared layout for filtered post listings (tags, categories, ...)
+ */
+export function PostArchive({
+  eyebrow,
+  title,
+  description,
+  posts,
+  backHref = "/blog",
+  backLabel = "All posts",
+  breadcrumbs,
+  listing,
+  children,
+}: PostArchiveProps) {
+  return (
+    <main className="min-h-screen py-20 px-4 sm:px-6 lg:px-8">
+      <JsonLd data={breadcrumbJsonLd(breadcrumbs)} />
+      <div className="container mx-auto max-w-7xl">
+        {/* Back Button */}
+        <Link href={backHref} className="inline-block mb-8">
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {backLabel}
+          </Button>
+        </Link>
+
+        {/* Header */}
+        <div className="text-center mb-12 md:mb-16">
+          <Badge variant="primary" size="lg" className="mb-4">
+            {eyebrow}
+          </Badge>
+          <h1 className="text-4xl sm:text-5xl md:text-6xl font-bold tracking-tight mb-4">
+            {title}
+          </h1>
+          {description && (
+            <p className="text-lg md:text-xl text-muted-foreground max-w-2xl mx-auto">
+              {description}
+            </p>
+          )}
+        </div>
+
+        {children}
+
+        {listing && <SortControls listing={listing} />}
+
+        {/* Blog Posts Grid */}
+        <BlogPostList posts={posts} />
+
+        {listing && <Pagination listing={listing} />}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,77 @@
+import Link from "next/link";
+import { Layers } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { postHref, seriesHref } from "@/lib/routes";
+import type { PostSeries } from "@/types/blog";
+
+/**
+ * SeriesNavigator Props
+ */
+interface SeriesNavigatorProps {
+  /** Series the current post belongs to */
+  series: PostSeries;
+  /** Slug of the post being viewed */
+  currentSlug: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Series Navigator
+ * 
+ * Lists every part of a series with the current part highlighted
+ */
+export function SeriesNavigator({ series, currentSlug, className }: SeriesNavigatorProps) {
+  // Authored part numbers, as in the list and the previous/next links
+  // (they may have gaps while later parts are scheduled)
+  const currentPart = series.posts.find((post) => post.slug === currentSlug)?.frontmatter.series?.part;
+  const count = `${series.posts.length} ${series.posts.length === 1 ? "part" : "parts"}`;
+
+  return (
+    <Card className={cn("p-6", className)}>
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <div className="text-sm text-muted-foreground flex items-center gap-1 mb-1">
+            <Layers className="h-4 w-4" />
+            {currentPart !== undefined
+              ? `Part ${currentPart} · ${count}`
+              : `${series.posts.length}-part series`}
+          </div>
+          <Link
+            href={seriesHref(series.slug)}
+            className="text-lg font-semibold hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+          >
+            {series.name}
+          </Link>
+        </div>
+      </div>
+
+      <ol className="space-y-1">
+        {series.posts.map((post) => {
+          const isCurrent = post.slug === currentSlug;
+
+          return (
+            <li key={post.slug}>
+              <Link
+                href={postHref(post.slug)}
+                aria-current={isCurrent ? "page" : undefined}
+                className={cn(
+                  "flex gap-3 rounded-base px-3 py-2 text-sm transition-colors",
+                  isCurrent
+                    ? "bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300 font-medium"
+                    : "hover:bg-muted text-foreground/80"
+                )}
+              >
+                <span className="shrink-0 tabular-nums text-muted-foreground">
+                  {post.frontmatter.series?.part}.
+                </span>
+                <span>{post.frontmatter.title}</span>
+              </Link>
+            </li>
+          );
+        })}
+      </ol>
+    </Card>
+  );
+}
@@ -0,0 +1,61 @@
+import Link from "next/link";
+import { ArrowDownUp } from "lucide-react";
+import { listingHref } from "@/lib/routes";
+import { cn } from "@/lib/utils";
+import { postOrderConfig, postOrders } from "@/types/blog";
+import type { PostListing } from "@/lib/post-listing";
+
+/**
+ * SortControls Props
+ */
+interface SortControlsProps {
+  /** Current listing page */
+  listing: PostListing;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Sort Controls
+ *
+ * Links to the listing in each order. Changing the order goes back to
+ * page 1; any tag or category filter is kept, since it is part of the
+ * listing's base path.
+ */
+export function SortControls({ listing, className }: SortControlsProps) {
+  const { basePath, order: current, page } = listing;
+
+  return (
+    <nav
+      aria-label="Sort posts"
+      className={cn("mb-8 flex flex-wrap items-center justify-between gap-4", className)}
+    >
+      <p className="text-sm text-muted-foreground">
+        {page.totalItems} {page.totalItems === 1 ? "article" : "articles"}
+      </p>
+
+      <div className="flex items-center gap-2">
+        <ArrowDownUp className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+        <span className="sr-only">Sort by</span>
+        <ul className="flex gap-1 rounded-lg border border-border bg-muted/50 p-1">
+          {postOrders.map((order) => (
+            <li key={order}>
+              <Link
+                href={listingHref(basePath, { order })}
+                aria-current={order === current ? "true" : undefined}
+                className={cn(
+                  "block rounded-md px-3 py-1.5 text-sm font-medium transition-colors",
+                  order === current
+                    ? "bg-background text-foreground shadow-sm"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {postOrderConfig[order].label}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </nav>
+  );
+}
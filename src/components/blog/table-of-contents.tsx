@@ -0,0 +1,113 @@
+"use client";
+
+import * as React from "react";
+import { cn } from "@/lib/utils";
+import type { TocItem } from "@/lib/mdx-pipeline";
+
+/**
+ * TableOfContents Props
+ */
+interface TableOfContentsProps {
+  /** Nested headings from extractTableOfContents */
+  items: TocItem[];
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Flatten nested items into document order
+ */
+function flatten(items: TocItem[]): TocItem[] {
+  return items.flatMap((item) => [item, ...flatten(item.children)]);
+}
+
+/**
+ * Track the section currently being read
+ *
+ * A heading counts as active once it scrolls into the top band of the
+ * viewport (below the fixed navigation) and stays active until the next
+ * heading reaches that band.
+ */
+function useActiveHeading(ids: string[]): string | null {
+  const [activeId, setActiveId] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    const headings = ids
+      .map((id) => document.getElementById(id))
+      .filter((element): element is HTMLElement => element !== null);
+
+    if (headings.length === 0) return;
+
+    const visible = new Set<string>();
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) {
+            visible.add(entry.target.id);
+          } else {
+            visible.delete(entry.target.id);
+          }
+        }
+
+        // First heading in the band wins; otherwise keep the last one passed
+        const current = headings.find((heading) => visible.has(heading.id));
+        if (current) {
+          setActiveId(current.id);
+        } else {
+          const passed = headings.filter((heading) => heading.getBoundingClientRect().top < 96);
+          setActiveId(passed.length > 0 ? passed[passed.length - 1].id : null);
+        }
+      },
+      { rootMargin: "-96px 0px -66% 0px" }
+    );
+
+    headings.forEach((heading) => observer.observe(heading));
+    return () => observer.disconnect();
+  }, [ids]);
+
+  return activeId;
+}
+
+/**
+ * Table of Contents
+ *
+ * Nested heading links with scrollspy highlighting of the active section
+ */
+export function TableOfContents({ items, className }: TableOfContentsProps) {
+  const ids = React.useMemo(() => flatten(items).map((item) => item.id), [items]);
+  const activeId = useActiveHeading(ids);
+
+  function renderItems(list: TocItem[], depth: number) {
+    return (
+      <ul className={cn("space-y-2", depth > 0 && "mt-2 pl-4 border-l border-border")}>
+        {list.map((item) => {
+          const isActive = item.id === activeId;
+
+          return (
+            <li key={item.id}>
+              <a
+                href={`#${item.id}`}
+                aria-current={isActive ? "location" : undefined}
+                className={cn(
+                  "block text-sm transition-colors hover:text-primary-600 dark:hover:text-primary-400",
+                  depth === 0 ? "font-medium" : "text-muted-foreground",
+                  isActive && "text-primary-600 dark:text-primary-400"
+                )}
+              >
+                {item.title}
+              </a>
+              {item.children.length > 0 && renderItems(item.children, depth + 1)}
+            </li>
+          );
+        })}
+      </ul>
+    );
+  }
+
+  return (
+    <nav aria-label="Table of contents" className={className}>
+      {renderItems(items, 0)}
+    </nav>
+  );
+}
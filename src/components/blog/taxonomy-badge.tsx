@@ -0,0 +1,54 @@
+import Link from "next/link";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import { tagHref, categoryHref } from "@/lib/routes";
+import { cn } from "@/lib/utils";
+
+interface TaxonomyBadgeProps extends Pick<BadgeProps, "variant" | "size" | "className"> {
+  /** Optional post count shown after the name */
+  count?: number;
+}
+
+interface TagBadgeProps extends TaxonomyBadgeProps {
+  tag: string;
+}
+
+interface CategoryBadgeProps extends TaxonomyBadgeProps {
+  category: string;
+}
+
+/**
+ * Tag Badge
+ * 
+ * Badge linking to the tag archive page.
+ * Sits above stretched card links (relative z-10) so it stays clickable.
+ */
+export function TagBadge({ tag, count, variant = "outline", size, className }: TagBadgeProps) {
+  return (
+    <Link href={tagHref(tag)} className="relative z-10 w-fit">
+      <Badge
+        variant={variant}
+        size={size}
+        className={cn("cursor-pointer hover:border-primary-500 hover:text-primary-600 dark:hover:text-primary-400", className)}
+      >
+        {tag}
+        {count !== undefined && <span className="text-muted-foreground">{count}</span>}
+      </Badge>
+    </Link>
+  );
+}
+
+/**
+ * Category Badge
+ * 
+ * Badge linking to the category archive page
+ */
+export function CategoryBadge({ category, count, variant = "primary", size, className }: CategoryBadgeProps) {
+  return (
+    <Link href={categoryHref(category)} className="relative z-10 w-fit">
+      <Badge variant={variant} size={size} className={cn("cursor-pointer hover:opacity-80", className)}>
+        {category}
+        {count !== undefined && <span className="opacity-70">{count}</span>}
+      </Badge>
+    </Link>
+  );
+}
@@ -0,0 +1,2 @@
+export { Sparkline } from "./sparkline";
+export { TrendChart } from "./trend-chart";
@@ -0,0 +1,54 @@
+import { cn } from "@/lib/utils";
+import { linePath, plotSeries, type ChartFrame } from "@/lib/charts";
+import { describeSeries } from "@/lib/metrics";
+import type { VentureMetric } from "@/types/venture";
+
+/** Sparkline drawing area (viewBox units) */
+const FRAME: ChartFrame = {
+  width: 96,
+  height: 28,
+  inset: { top: 3, right: 3, bottom: 3, left: 3 },
+};
+
+/**
+ * Sparkline Props
+ */
+interface SparklineProps {
+  /** Metric whose series is drawn (needs two or more points) */
+  metric: VentureMetric;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Sparkline Component
+ * 
+ * Inline SVG trend line rendered on the server. The line uses the
+ * primary palette with a dark-mode shade; screen readers get the
+ * series summary instead of the drawing.
+ */
+export function Sparkline({ metric, className }: SparklineProps) {
+  if (metric.series.length < 2) return null;
+
+  const { points } = plotSeries(metric.series, FRAME);
+  const last = points[points.length - 1];
+
+  return (
+    <svg
+      viewBox={`0 0 ${FRAME.width} ${FRAME.height}`}
+      role="img"
+      aria-label={describeSeries(metric)}
+      className={cn("h-7 w-24 overflow-visible", className)}
+    >
+      <path
+        d={linePath(points)}
+        fill="none"
+        strokeWidth={1.5}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        className="stroke-primary-600 dark:stroke-primary-400"
+      />
+      <circle cx={last.x} cy={last.y} r={2.5} className="fill-primary-600 dark:fill-primary-400" />
+    </svg>
+  );
+}
@@ -0,0 +1,139 @@
+import { MetricIcon } from "@/components/ui/metric-icon";
+import { cn } from "@/lib/utils";
+import { areaPath, linePath, plotSeries, type ChartFrame } from "@/lib/charts";
+import { describeSeries, formatMetric, formatTrend, getMetricTrend } from "@/lib/metrics";
+import { formatCalendarDate } from "@/lib/dates";
+import type { VentureMetric } from "@/types/venture";
+
+/** Chart drawing area (viewBox units); the left inset holds the value labels */
+const FRAME: ChartFrame = {
+  width: 320,
+  height: 140,
+  inset: { top: 8, right: 8, bottom: 20, left: 40 },
+};
+
+/**
+ * TrendChart Props
+ */
+interface TrendChartProps {
+  /** Metric whose series is drawn (needs two or more points) */
+  metric: VentureMetric;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Month label for an axis or table cell, e.g. "Sep 2025"
+ */
+function formatPointDate(date: string): string {
+  return formatCalendarDate(date, { month: "short", year: "numeric" });
+}
+
+/**
+ * TrendChart Component
+ * 
+ * Server-rendered SVG chart of a metric's history with its growth.
+ * Counts start the scale at zero so growth isn't exaggerated. Colours
+ * come from theme utilities, so the chart follows dark mode. The data
+ * is also available as a table under "View data" for screen readers
+ * and anyone who wants exact figures.
+ */
+export function TrendChart({ metric, className }: TrendChartProps) {
+  if (metric.series.length < 2) return null;
+
+  const trend = getMetricTrend(metric);
+  const { points, baseline, domain } = plotSeries(metric.series, FRAME, metric.unit !== "percent");
+  const first = points[0];
+  const last = points[points.length - 1];
+  const top = FRAME.inset.top;
+  const format = (value: number) => formatMetric({ ...metric, prefix: undefined, suffix: undefined, value });
+
+  return (
+    <figure className={cn("rounded-lg border border-border p-4", className)}>
+      <figcaption className="flex items-start justify-between gap-4 mb-3">
+        <span className="flex items-center gap-2 font-medium">
+          <MetricIcon icon={metric.icon} className="h-4 w-4 text-muted-foreground" />
+          {metric.label}
+        </span>
+        <span className="text-right">
+          <span className="block text-lg font-semibold leading-tight">{formatMetric(metric)}</span>
+          {trend && (
+            <span className="block text-xs text-primary-600 dark:text-primary-400">
+              {formatTrend(trend)} since {formatPointDate(trend.from.date)}
+            </span>
+          )}
+        </span>
+      </figcaption>
+
+      <svg
+        viewBox={`0 0 ${FRAME.width} ${FRAME.height}`}
+        role="img"
+        aria-label={describeSeries(metric)}
+        className="h-auto w-full overflow-visible"
+      >
+        {/* Scale */}
+        <line x1={FRAME.inset.left} x2={FRAME.width - FRAME.inset.right} y1={top} y2={top} className="stroke-border" strokeDasharray="3 3" />
+        <line x1={FRAME.inset.left} x2={FRAME.width - FRAME.inset.right} y1={baseline} y2={baseline} className="stroke-border" />
+        <text x={FRAME.inset.left - 6} y={top} textAnchor="end" dominantBaseline="middle" fontSize={9} className="fill-muted-foreground">
+          {format(domain.max)}
+        </text>
+        <text x={FRAME.inset.left - 6} y={baseline} textAnchor="end" dominantBaseline="middle" fontSize={9} className="fill-muted-foreground">
+          {format(domain.min)}
+        </text>
+        <text x={first.x} y={FRAME.height - 4} textAnchor="start" fontSize={9} className="fill-muted-foreground">
+          {formatPointDate(first.date)}
+        </text>
+        <text x={last.x} y={FRAME.height - 4} textAnchor="end" fontSize={9} className="fill-muted-foreground">
+          {formatPointDate(last.date)}
+        </text>
+
+        {/* Series */}
+        <path d={areaPath(points, baseline)} className="fill-primary-500/10 dark:fill-primary-400/15" />
+        <path
+          d={linePath(points)}
+          fill="none"
+          strokeWidth={2}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="stroke-primary-600 dark:stroke-primary-400"
+        />
+        {points.map((point) => (
+          <circle
+            key={point.date}
+            cx={point.x}
+            cy={point.y}
+            r={3}
+            strokeWidth={2}
+            className="fill-background stroke-primary-600 dark:stroke-primary-400"
+          />
+        ))}
+      </svg>
+
+      {/* Data table fallback */}
+      <details className="mt-3 text-sm">
+        <summary className="cursor-pointer text-muted-foreground hover:text-foreground transition-colors">
+          View data
+        </summary>
+        <table className="mt-2 w-full">
+          <caption className="sr-only">{metric.label} by date</caption>
+          <thead>
+            <tr className="border-b border-border text-left text-muted-foreground">
+              <th scope="col" className="py-1 font-medium">Date</th>
+              <th scope="col" className="py-1 text-right font-medium">{metric.label}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {metric.series.map((point) => (
+              <tr key={point.date} className="border-b border-border last:border-0">
+                <td className="py-1">
+                  <time dateTime={point.date}>{formatCalendarDate(point.date)}</time>
+                </td>
+                <td className="py-1 text-right tabular-nums">{formatMetric({ ...metric, value: point.value })}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </figure>
+  );
+}
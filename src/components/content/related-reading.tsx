@@ -0,0 +1,74 @@
+import Link from "next/link";
+import Image from "next/image";
+import { BookOpen, Rocket } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import type { RelatedItem } from "@/lib/related";
+
+/**
+ * RelatedReading Props
+ */
+interface RelatedReadingProps {
+  /** Related items, best first */
+  items: RelatedItem[];
+  /** Section heading */
+  title?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Related Reading
+ * 
+ * Cards for posts and ventures related to the current page.
+ * Renders nothing when there is nothing related.
+ */
+export function RelatedReading({ items, title = "Related reading", className }: RelatedReadingProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <section className={cn("mt-12 pt-8 border-t border-border", className)} aria-labelledby="related-reading">
+      <h3 id="related-reading" className="text-lg font-semibold mb-4">
+        {title}
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {items.map((item) => {
+          const Icon = item.type === "post" ? BookOpen : Rocket;
+
+          return (
+            <Link key={`${item.type}:${item.slug}`} href={item.href}>
+              <Card className="h-full overflow-hidden hover:shadow-md transition-shadow cursor-pointer group">
+                <div className="relative h-28 w-full overflow-hidden bg-linear-to-br from-primary-500/20 to-primary-600/30">
+                  {item.coverImage ? (
+                    <Image
+                      src={item.coverImage}
+                      alt={item.title}
+                      fill
+                      className="object-cover transition-transform duration-500 group-hover:scale-105"
+                    />
+                  ) : (
+                    <div className="absolute inset-0 flex items-center justify-center">
+                      <Icon className="h-10 w-10 text-primary-600/30 dark:text-primary-400/30" />
+                    </div>
+                  )}
+                </div>
+                <CardContent className="p-4 space-y-2">
+                  {item.label && (
+                    <Badge variant={item.type === "post" ? "primary" : "default"} size="sm">
+                      {item.label}
+                    </Badge>
+                  )}
+                  <h4 className="font-semibold line-clamp-2 group-hover:text-primary-600 dark:group-hover:text-primary-400 transition-colors">
+                    {item.title}
+                  </h4>
+                  <p className="text-sm text-muted-foreground line-clamp-2">{item.description}</p>
+                </CardContent>
+              </Card>
+            </Link>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
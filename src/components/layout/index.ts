@@ -1 +1,2 @@
 export { Navigation } from "./navigation";
+export { PreviewBanner } from "./preview-banner";
@@ -3,7 +3,8 @@
 import * as React from "react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
-import { Menu, X, Moon, Sun } from "lucide-react";
+import { Menu, X, Moon, Sun, Search } from "lucide-react";
+import { SearchDialog } from "@/components/search/search-dialog";
 
 /**
  * Navigation Link Interface
@@ -55,6 +56,7 @@ const defaultLinks: NavLink[] = [
  * 3. Dark mode toggle: Uses class-based dark mode strategy
  * 4. Smooth scroll: Animated anchor navigation
  * 5. Accessible: ARIA labels, keyboard navigation
+ * 6. Site search: Dialog opened by button, ⌘K / Ctrl+K or "/"
  */
 export function Navigation({
   brandName = "Ammly",
@@ -75,6 +77,39 @@ export function Navigation({
    */
   const [isScrolled, setIsScrolled] = React.useState(false);
 
+  /** Search dialog open/close state */
+  const [searchOpen, setSearchOpen] = React.useState(false);
+
+  /**
+   * SEARCH KEYBOARD SHORTCUT
+   * 
+   * ⌘K / Ctrl+K toggles search anywhere; "/" opens it unless the user
+   * is already typing in a field
+   */
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setSearchOpen((open) => !open);
+        return;
+      }
+
+      const target = e.target as HTMLElement | null;
+      const isTyping =
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement ||
+        target?.isContentEditable;
+
+      if (e.key === "/" && !isTyping) {
+        e.preventDefault();
+        setSearchOpen(true);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
   /**
    * SCROLL POSITION DETECTION LOGIC
    * 
@@ -247,8 +282,20 @@ export function Navigation({
             ))}
           </div>
 
-          {/* Right side: Dark mode toggle + Mobile menu button */}
+          {/* Right side: Search + Dark mode toggle + Mobile menu button */}
           <div className="flex items-center space-x-2">
+            {/* Search */}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setSearchOpen(true)}
+              aria-label="Search (⌘K)"
+              aria-keyshortcuts="Meta+K Control+K /"
+              className="rounded-full"
+            >
+              <Search className="h-5 w-5 text-foreground" />
+            </Button>
+
             {/* Dark Mode Toggle */}
             <Button
               variant="ghost"
@@ -305,6 +352,8 @@ export function Navigation({
           </div>
         </div>
       )}
+
+      <SearchDialog open={searchOpen} onOpenChange={setSearchOpen} />
     </nav>
   );
 }
@@ -0,0 +1,32 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { Eye } from "lucide-react";
+
+/**
+ * Preview Banner
+ * 
+ * Fixed notice shown while draft mode is enabled, so a preview is never
+ * mistaken for the live site. Exiting returns to the current page.
+ */
+export function PreviewBanner() {
+  const pathname = usePathname();
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 z-60 -translate-x-1/2 flex items-center gap-3 rounded-full border border-amber-300 bg-amber-100 px-4 py-2 text-sm font-medium text-amber-900 shadow-lg dark:border-amber-700 dark:bg-amber-950 dark:text-amber-100"
+    >
+      <Eye className="h-4 w-4" />
+      <span>Preview: drafts and scheduled content are visible</span>
+      <Link
+        href={`/api/draft/disable?path=${encodeURIComponent(pathname)}`}
+        prefetch={false}
+        className="underline underline-offset-2 hover:no-underline"
+      >
+        Exit preview
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import * as React from "react";
+import { cva } from "class-variance-authority";
+import { AlertTriangle, Info, Lightbulb } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+/**
+ * Callout Variants Configuration
+ *
+ * Tinted, left-accented panels matching the semantic Badge colours
+ */
+const calloutVariants = cva(
+  "my-6 flex gap-3 rounded-lg border border-l-4 p-4",
+  {
+    variants: {
+      /**
+       * Callout Types:
+       * - info: Context or background (blue)
+       * - tip: Recommendations and shortcuts (green)
+       * - warning: Pitfalls and breaking changes (amber)
+       */
+      type: {
+        info: "border-primary-200 border-l-primary-500 bg-primary-50 text-primary-900 dark:border-primary-900/50 dark:border-l-primary-400 dark:bg-primary-900/20 dark:text-primary-100",
+        tip: "border-success-500/30 border-l-success-500 bg-success-50 text-success-700 dark:border-success-700/40 dark:bg-success-700/15 dark:text-success-50",
+        warning: "border-warning-500/30 border-l-warning-500 bg-warning-50 text-warning-700 dark:border-warning-700/40 dark:bg-warning-700/15 dark:text-warning-50",
+      },
+    },
+    defaultVariants: {
+      type: "info",
+    },
+  }
+);
+
+const calloutConfig = {
+  info: { icon: Info, label: "Note" },
+  tip: { icon: Lightbulb, label: "Tip" },
+  warning: { icon: AlertTriangle, label: "Warning" },
+} as const;
+
+/**
+ * Callout Props
+ */
+interface CalloutProps {
+  /** Callout type */
+  type?: keyof typeof calloutConfig;
+  /** Heading (defaults to the type's label) */
+  title?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Callout
+ *
+ * Highlighted aside for notes, tips and warnings in MDX
+ *
+ * @example
+ * <Callout type="warning" title="Mind the rate limit">
+ *   The embeddings API allows 3,000 requests per minute.
+ * </Callout>
+ */
+export function Callout({ type = "info", title, children }: CalloutProps) {
+  const { icon: Icon, label } = calloutConfig[type] ?? calloutConfig.info;
+
+  return (
+    <aside role="note" className={cn(calloutVariants({ type }))}>
+      <Icon className="mt-0.5 h-5 w-5 shrink-0" aria-hidden="true" />
+      <div className="min-w-0 flex-1 space-y-1">
+        <p className="font-semibold">{title ?? label}</p>
+        <div className="text-sm leading-relaxed [&_p]:mb-2 [&_p]:text-sm [&_p:last-child]:mb-0 [&_p]:text-inherit [&_li]:text-sm [&_li]:text-inherit">
+          {children}
+        </div>
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import * as React from "react";
+import { Check, Copy, FileCode, WrapText } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+/**
+ * CodeBlock Props
+ *
+ * The data attributes are set at build time by rehypeCodeMeta and
+ * rehypeCodeLines; children is the already highlighted <code> element.
+ */
+interface CodeBlockProps extends React.HTMLAttributes<HTMLPreElement> {
+  "data-language"?: string;
+  "data-title"?: string;
+  "data-line-numbers"?: string;
+  "data-diff"?: string;
+}
+
+/**
+ * Text of the block as it should be pasted
+ *
+ * Removed diff lines and the +/- gutter are left out, so copying a diff
+ * yields the resulting code.
+ */
+function getCopyText(pre: HTMLPreElement): string {
+  const lines = pre.querySelectorAll<HTMLElement>(".code-line");
+  if (lines.length === 0) return pre.textContent ?? "";
+
+  return Array.from(lines)
+    .filter((line) => line.dataset.diff !== "remove")
+    .map((line) => {
+      const clone = line.cloneNode(true) as HTMLElement;
+      clone.querySelectorAll(".code-diff-marker").forEach((marker) => marker.remove());
+      return clone.textContent ?? "";
+    })
+    .join("")
+    .replace(/\n$/, "");
+}
+
+/**
+ * Code Block
+ *
+ * Frame for highlighted fenced code: a header with the file title or
+ * language, a word-wrap toggle and a copy button. Highlighting itself
+ * happens at build time; this component only adds the controls.
+ */
+export function CodeBlock({ children, className, ...props }: CodeBlockProps) {
+  const preRef = React.useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = React.useState(false);
+  const [wrap, setWrap] = React.useState(false);
+
+  const language = props["data-language"];
+  const title = props["data-title"];
+
+  React.useEffect(() => {
+    if (!copied) return;
+    const timeout = window.setTimeout(() => setCopied(false), 2000);
+    return () => window.clearTimeout(timeout);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    if (!preRef.current) return;
+
+    try {
+      await navigator.clipboard.writeText(getCopyText(preRef.current));
+      setCopied(true);
+    } catch (error) {
+      console.error("Copy to clipboard failed:", error);
+    }
+  };
+
+  return (
+    <figure className="code-block my-6 overflow-hidden rounded-lg border border-neutral-800 bg-neutral-900 dark:bg-neutral-950">
+      {/* Header */}
+      <figcaption className="flex items-center gap-2 border-b border-neutral-800 px-4 py-2 text-xs text-neutral-400">
+        {title ? (
+          <span className="flex min-w-0 items-center gap-1.5 font-mono text-neutral-200">
+            <FileCode className="h-3.5 w-3.5 shrink-0" />
+            <span className="truncate">{title}</span>
+          </span>
+        ) : (
+          <span className="sr-only">Code</span>
+        )}
+
+        <div className="ml-auto flex items-center gap-1">
+          {language && (
+            <span className="mr-2 font-mono uppercase tracking-wide">{language}</span>
+          )}
+          <button
+            type="button"
+            onClick={() => setWrap((value) => !value)}
+            aria-pressed={wrap}
+            aria-label="Toggle word wrap"
+            title="Toggle word wrap"
+            className={cn(
+              "rounded p-1.5 transition-colors hover:bg-neutral-800 hover:text-neutral-100",
+              wrap && "text-primary-400"
+            )}
+          >
+            <WrapText className="h-3.5 w-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={handleCopy}
+            aria-label={copied ? "Copied" : "Copy code"}
+            title={copied ? "Copied" : "Copy code"}
+            className="flex items-center gap-1 rounded p-1.5 transition-colors hover:bg-neutral-800 hover:text-neutral-100"
+          >
+            {copied ? (
+              <Check className="h-3.5 w-3.5 text-success-500" />
+            ) : (
+              <Copy className="h-3.5 w-3.5" />
+            )}
+            <span aria-live="polite" className={cn(!copied && "sr-only")}>
+              {copied ? "Copied" : ""}
+            </span>
+          </button>
+        </div>
+      </figcaption>
+
+      {/* Code */}
+      <pre
+        ref={preRef}
+        {...props}
+        data-wrap={wrap ? "" : undefined}
+        className={cn("overflow-x-auto py-4 text-sm leading-relaxed", className)}
+      >
+        {children}
+      </pre>
+    </figure>
+  );
+}
@@ -0,0 +1,34 @@
+import * as React from "react";
+import { ChevronRight } from "lucide-react";
+
+/**
+ * Details Props
+ */
+interface DetailsProps {
+  /** Always-visible summary line */
+  summary: string;
+  /** Start expanded */
+  open?: boolean;
+  children: React.ReactNode;
+}
+
+/**
+ * Details
+ *
+ * Collapsible section for optional depth (long logs, derivations, FAQs).
+ * Built on the native <details> element, so it works without JavaScript.
+ */
+export function Details({ summary, open = false, children }: DetailsProps) {
+  return (
+    <details
+      open={open}
+      className="group my-6 rounded-lg border border-border bg-card shadow-sm"
+    >
+      <summary className="flex cursor-pointer list-none items-center gap-2 px-4 py-3 font-medium hover:bg-muted/50 transition-colors rounded-lg [&::-webkit-details-marker]:hidden">
+        <ChevronRight className="h-4 w-4 shrink-0 text-muted-foreground transition-transform group-open:rotate-90" />
+        {summary}
+      </summary>
+      <div className="border-t border-border px-4 pt-4 [&>*:last-child]:mb-4">{children}</div>
+    </details>
+  );
+}
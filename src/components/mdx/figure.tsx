@@ -0,0 +1,81 @@
+import Image from "next/image";
+
+/**
+ * Figure Props
+ */
+interface FigureProps {
+  /** Image URL (remote hosts must be allowed in next.config) */
+  src: string;
+  /** Alternative text describing the image */
+  alt: string;
+  /** Caption shown under the image */
+  caption?: string;
+  /** Photographer or source name */
+  credit?: string;
+  /** Link to the credited source */
+  creditUrl?: string;
+  /** Intrinsic width in pixels (used for the aspect ratio) */
+  width?: number;
+  /** Intrinsic height in pixels (used for the aspect ratio) */
+  height?: number;
+}
+
+/**
+ * Figure
+ *
+ * Responsive image with an optional caption and credit line
+ *
+ * @example
+ * <Figure
+ *   src="https://images.unsplash.com/photo-..."
+ *   alt="Server racks"
+ *   caption="Our ingestion cluster"
+ *   credit="Unsplash"
+ *   creditUrl="https://unsplash.com"
+ * />
+ */
+export function Figure({
+  src,
+  alt,
+  caption,
+  credit,
+  creditUrl,
+  width = 1200,
+  height = 675,
+}: FigureProps) {
+  return (
+    <figure className="my-8">
+      <Image
+        src={src}
+        alt={alt}
+        width={width}
+        height={height}
+        sizes="(min-width: 1024px) 720px, 100vw"
+        className="w-full h-auto rounded-lg border border-border"
+      />
+      {(caption || credit) && (
+        <figcaption className="mt-3 text-sm text-muted-foreground text-center">
+          {caption}
+          {caption && credit && " · "}
+          {credit && (
+            <span className="text-xs">
+              Credit:{" "}
+              {creditUrl ? (
+                <a
+                  href={creditUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="underline underline-offset-2 hover:text-foreground transition-colors"
+                >
+                  {credit}
+                </a>
+              ) : (
+                credit
+              )}
+            </span>
+          )}
+        </figcaption>
+      )}
+    </figure>
+  );
+}
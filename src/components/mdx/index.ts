@@ -0,0 +1,9 @@
+export { MdxContent } from "./mdx-content";
+export { mdxComponents, getMdxComponents } from "./registry";
+export { Callout } from "./callout";
+export { Tabs, Tab } from "./tabs";
+export { Figure } from "./figure";
+export { Steps, Step } from "./steps";
+export { Details } from "./details";
+export { CodeBlock } from "./code-block";
+export { Mermaid } from "./mermaid";
@@ -0,0 +1,38 @@
+import { MDXRemote } from "next-mdx-remote/rsc";
+import type { MDXComponents } from "mdx/types";
+import { getMdxPipeline, type MdxCollection } from "@/lib/mdx-pipeline";
+import { getMdxComponents } from "./registry";
+
+// Syntax highlighting theme for rehype-highlight output
+import "highlight.js/styles/github-dark.css";
+// Fonts and layout for rehype-katex output
+import "katex/dist/katex.min.css";
+
+/**
+ * MdxContent Props
+ */
+interface MdxContentProps {
+  /** Raw MDX body */
+  source: string;
+  /** Content type, selecting its plugin and component overrides */
+  collection: MdxCollection;
+  /** Page-specific components, applied over the collection's */
+  components?: MDXComponents;
+}
+
+/**
+ * MDX Content
+ *
+ * Renders an MDX body with the shared component registry and the
+ * collection's remark/rehype pipeline. Every MDX body on the site
+ * goes through here.
+ */
+export function MdxContent({ source, collection, components }: MdxContentProps) {
+  return (
+    <MDXRemote
+      source={source}
+      components={getMdxComponents(collection, components)}
+      options={{ mdxOptions: getMdxPipeline(collection) }}
+    />
+  );
+}
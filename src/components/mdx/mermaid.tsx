@@ -0,0 +1,51 @@
+import { cn } from "@/lib/utils";
+
+/**
+ * Mermaid Props
+ *
+ * Set by remarkMermaid from a ```mermaid fence
+ */
+interface MermaidProps {
+  /** Diagram source */
+  chart: string;
+
+  /** SVG in the light theme (missing if the diagram failed to render) */
+  light?: string;
+
+  /** SVG in the dark theme */
+  dark?: string;
+
+  /** Accessible name of the diagram */
+  label?: string;
+}
+
+const svgClassName = "justify-center [&_svg]:h-auto [&_svg]:max-w-full";
+
+/**
+ * Mermaid
+ *
+ * Shows a diagram rendered to SVG at build time by remarkMermaid. Both
+ * theme variants are in the markup and the dark: variant picks one, so
+ * the theme toggle switches diagrams without any script. If rendering
+ * failed the diagram source is shown instead.
+ *
+ * @example
+ * ```mermaid
+ * graph LR
+ *   Query --> Embedding --> Search
+ * ```
+ */
+export function Mermaid({ chart, light, dark, label = "Diagram" }: MermaidProps) {
+  return (
+    <figure className="my-6 overflow-x-auto rounded-lg border border-border bg-card p-4">
+      {light && dark ? (
+        <div role="img" aria-label={label}>
+          <div className={cn("flex dark:hidden", svgClassName)} dangerouslySetInnerHTML={{ __html: light }} />
+          <div className={cn("hidden dark:flex", svgClassName)} dangerouslySetInnerHTML={{ __html: dark }} />
+        </div>
+      ) : (
+        <pre className="font-mono text-sm text-muted-foreground whitespace-pre-wrap">{chart}</pre>
+      )}
+    </figure>
+  );
+}
@@ -0,0 +1,176 @@
+import type { MDXComponents } from "mdx/types";
+import type { MdxCollection } from "@/lib/mdx-pipeline";
+import { Callout } from "./callout";
+import { Tabs, Tab } from "./tabs";
+import { Figure } from "./figure";
+import { Steps, Step } from "./steps";
+import { Details } from "./details";
+import { CodeBlock } from "./code-block";
+import { Mermaid } from "./mermaid";
+
+/**
+ * MDX Component Registry
+ *
+ * Default element styling for every MDX body on the site: blog posts,
+ * venture case studies, experience details, author bios and .mdx pages
+ * (via mdx-components.tsx). Collections adjust it in collectionComponents.
+ *
+ * Besides HTML element overrides it provides the authoring components
+ * Callout, Tabs/Tab, Figure, Steps/Step and Details, plus Mermaid, which
+ * ```mermaid fences are turned into by remarkMermaid.
+ */
+export const mdxComponents: MDXComponents = {
+  // Authoring components
+  Callout,
+  Tabs,
+  Tab,
+  Figure,
+  Steps,
+  Step,
+  Details,
+  Mermaid,
+
+  // HTML elements
+  h1: (props) => (
+    <h1 className="text-4xl font-bold tracking-tight mt-8 mb-4" {...props} />
+  ),
+  h2: (props) => (
+    <h2 className="text-3xl font-bold tracking-tight mt-8 mb-4 scroll-mt-24" {...props} />
+  ),
+  h3: (props) => (
+    <h3 className="text-2xl font-bold tracking-tight mt-6 mb-3 scroll-mt-24" {...props} />
+  ),
+  h4: (props) => (
+    <h4 className="text-xl font-bold tracking-tight mt-6 mb-3 scroll-mt-24" {...props} />
+  ),
+  p: (props) => (
+    <p className="text-lg leading-relaxed mb-4 text-foreground/90" {...props} />
+  ),
+  ul: (props) => (
+    <ul className="list-disc list-inside mb-4 space-y-2" {...props} />
+  ),
+  ol: (props) => (
+    <ol className="list-decimal list-inside mb-4 space-y-2" {...props} />
+  ),
+  li: (props) => (
+    <li className="text-lg text-foreground/90" {...props} />
+  ),
+  a: (props) => (
+    <a
+      className="text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300 underline underline-offset-4 transition-colors"
+      {...props}
+    />
+  ),
+  blockquote: (props) => (
+    <blockquote
+      className="border-l-4 border-primary-500 pl-4 italic my-4 text-muted-foreground"
+      {...props}
+    />
+  ),
+  code: (props) =>
+    // Fenced code is styled by CodeBlock; only inline code gets a pill
+    "data-code-block" in props ? (
+      <code {...props} />
+    ) : (
+      <code
+        className="bg-muted px-1.5 py-0.5 rounded text-sm font-mono"
+        {...props}
+      />
+    ),
+  pre: (props) => <CodeBlock {...props} />,
+  // Tables scroll sideways inside their frame on narrow screens
+  table: (props) => (
+    <div className="my-6 w-full overflow-x-auto rounded-lg border border-border">
+      <table className="w-full border-collapse text-sm" {...props} />
+    </div>
+  ),
+  thead: (props) => (
+    <thead className="bg-muted/50" {...props} />
+  ),
+  tr: (props) => (
+    <tr className="border-b border-border last:border-b-0" {...props} />
+  ),
+  th: (props) => (
+    <th
+      className="px-4 py-2 text-left font-semibold whitespace-nowrap [&[align=center]]:text-center [&[align=right]]:text-right"
+      {...props}
+    />
+  ),
+  td: (props) => (
+    <td
+      className="px-4 py-2 align-top text-foreground/90 [&[align=center]]:text-center [&[align=right]]:text-right"
+      {...props}
+    />
+  ),
+  img: (props) => (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img className="rounded-lg my-4 w-full" alt="" {...props} />
+  ),
+  hr: (props) => (
+    <hr className="my-8 border-border" {...props} />
+  ),
+};
+
+/**
+ * Compact text styles for bodies shown inside cards
+ */
+const compactComponents: MDXComponents = {
+  h2: (props) => (
+    <h2 className="text-lg font-semibold tracking-tight mt-4 mb-2" {...props} />
+  ),
+  h3: (props) => (
+    <h3 className="text-base font-semibold mt-4 mb-2" {...props} />
+  ),
+  h4: (props) => (
+    <h4 className="text-sm font-semibold mt-3 mb-1" {...props} />
+  ),
+  p: (props) => (
+    <p className="text-sm leading-relaxed mb-3 text-muted-foreground" {...props} />
+  ),
+  li: (props) => (
+    <li className="text-sm text-muted-foreground" {...props} />
+  ),
+};
+
+/**
+ * Per-collection component overrides
+ *
+ * Venture case studies sit in a narrower column under a page-level h1,
+ * so their headings are a step smaller; experience and author bodies
+ * are rendered inside cards.
+ */
+const collectionComponents: Record<MdxCollection, MDXComponents> = {
+  blog: {},
+  ventures: {
+    h1: (props) => (
+      <h2 className="text-3xl font-bold tracking-tight mt-8 mb-4" {...props} />
+    ),
+    h2: (props) => (
+      <h2 className="text-2xl font-bold tracking-tight mt-8 mb-4 scroll-mt-24" {...props} />
+    ),
+    h3: (props) => (
+      <h3 className="text-xl font-semibold tracking-tight mt-6 mb-3 scroll-mt-24" {...props} />
+    ),
+    p: (props) => (
+      <p className="leading-relaxed mb-4 text-foreground/90" {...props} />
+    ),
+    li: (props) => (
+      <li className="text-foreground/90" {...props} />
+    ),
+  },
+  experiences: compactComponents,
+  authors: compactComponents,
+};
+
+/**
+ * Get the components for a collection
+ *
+ * @param collection - Content type being rendered
+ * @param overrides - Page-specific components, applied last
+ */
+export function getMdxComponents(
+  collection: MdxCollection,
+  overrides?: MDXComponents
+): MDXComponents {
+  return { ...mdxComponents, ...collectionComponents[collection], ...overrides };
+}
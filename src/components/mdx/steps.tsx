@@ -0,0 +1,43 @@
+import * as React from "react";
+
+/**
+ * Steps
+ *
+ * Numbered walkthrough with a connecting rail. Wrap each step in <Step>.
+ *
+ * @example
+ * <Steps>
+ *   <Step title="Enable pgvector">...</Step>
+ *   <Step title="Generate embeddings">...</Step>
+ * </Steps>
+ */
+export function Steps({ children }: { children: React.ReactNode }) {
+  return (
+    <ol className="my-8 ml-4 border-l-2 border-border [counter-reset:step] list-none space-y-8">
+      {children}
+    </ol>
+  );
+}
+
+/**
+ * Step Props
+ */
+interface StepProps {
+  /** Step heading */
+  title: string;
+  children?: React.ReactNode;
+}
+
+/**
+ * Step
+ *
+ * A single numbered step inside <Steps>
+ */
+export function Step({ title, children }: StepProps) {
+  return (
+    <li className="relative pl-8 [counter-increment:step] before:absolute before:-left-[17px] before:top-0 before:flex before:h-8 before:w-8 before:items-center before:justify-center before:rounded-full before:border-2 before:border-background before:bg-primary-100 before:text-sm before:font-bold before:text-primary-700 before:content-[counter(step)] dark:before:bg-primary-900 dark:before:text-primary-300">
+      <p className="mb-2 pt-1 font-semibold text-foreground">{title}</p>
+      <div className="[&>*:last-child]:mb-0">{children}</div>
+    </li>
+  );
+}
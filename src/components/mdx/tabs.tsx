@@ -0,0 +1,184 @@
+"use client";
+
+import * as React from "react";
+import { cn } from "@/lib/utils";
+
+/**
+ * Synced Tab Selection
+ *
+ * Tabs sharing a groupId switch together: picking "Python" in one code
+ * sample switches every other "Python" tab on the page. The choice is
+ * remembered in localStorage so it carries over to the next post.
+ */
+const STORAGE_PREFIX = "mdx-tabs:";
+
+const listeners = new Set<() => void>();
+
+// Fallback when localStorage is unavailable (e.g. private mode)
+const memorySelections = new Map<string, string>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+
+  // Follow changes made in other tabs of the browser
+  const onStorage = (event: StorageEvent) => {
+    if (event.key?.startsWith(STORAGE_PREFIX)) listener();
+  };
+  window.addEventListener("storage", onStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+function readSelection(groupId: string): string | null {
+  try {
+    return window.localStorage.getItem(STORAGE_PREFIX + groupId);
+  } catch {
+    return null;
+  }
+}
+
+function writeSelection(groupId: string, label: string) {
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + groupId, label);
+  } catch {
+    memorySelections.set(groupId, label);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function useGroupSelection(groupId: string): [string | null, (label: string) => void] {
+  const selection = React.useSyncExternalStore(
+    subscribe,
+    () => readSelection(groupId) ?? memorySelections.get(groupId) ?? null,
+    () => null
+  );
+
+  const select = React.useCallback((label: string) => writeSelection(groupId, label), [groupId]);
+
+  return [selection, select];
+}
+
+/**
+ * Tab Props
+ */
+interface TabProps {
+  /** Tab button label, also the value synced across groups */
+  label: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Tab
+ *
+ * A single panel inside <Tabs>. Renders its content directly when
+ * used on its own.
+ */
+export function Tab({ children }: TabProps) {
+  return <>{children}</>;
+}
+
+/**
+ * Tabs Props
+ */
+interface TabsProps {
+  /** Tabs with the same group switch together (defaults to "language") */
+  groupId?: string;
+  /** Label of the tab shown before any selection is made (defaults to the first) */
+  defaultValue?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Tabs
+ *
+ * Tabbed panels for alternative versions of the same content,
+ * typically one code sample per language
+ *
+ * @example
+ * <Tabs>
+ *   <Tab label="Python">```python ...```</Tab>
+ *   <Tab label="TypeScript">```ts ...```</Tab>
+ * </Tabs>
+ */
+export function Tabs({ groupId = "language", defaultValue, children }: TabsProps) {
+  const baseId = React.useId();
+  const [selection, select] = useGroupSelection(groupId);
+
+  const tabs = React.Children.toArray(children).filter(
+    (child): child is React.ReactElement<TabProps> =>
+      React.isValidElement<TabProps>(child) && typeof child.props.label === "string"
+  );
+
+  if (tabs.length === 0) return null;
+
+  const labels = tabs.map((tab) => tab.props.label);
+  const active =
+    (selection && labels.includes(selection) && selection) ||
+    (defaultValue && labels.includes(defaultValue) && defaultValue) ||
+    labels[0];
+
+  /**
+   * Arrow-key navigation between tabs (WAI-ARIA tabs pattern)
+   */
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>, index: number) => {
+    const offsets: Record<string, number> = { ArrowRight: 1, ArrowLeft: -1 };
+    let next: number | null = null;
+
+    if (event.key in offsets) next = (index + offsets[event.key] + labels.length) % labels.length;
+    if (event.key === "Home") next = 0;
+    if (event.key === "End") next = labels.length - 1;
+    if (next === null) return;
+
+    event.preventDefault();
+    select(labels[next]);
+    document.getElementById(`${baseId}-tab-${next}`)?.focus();
+  };
+
+  return (
+    <div className="my-6 rounded-lg border border-border bg-card overflow-hidden">
+      <div role="tablist" className="flex gap-1 overflow-x-auto border-b border-border bg-muted/50 px-2">
+        {labels.map((label, index) => {
+          const isActive = label === active;
+
+          return (
+            <button
+              key={label}
+              id={`${baseId}-tab-${index}`}
+              type="button"
+              role="tab"
+              aria-selected={isActive}
+              aria-controls={`${baseId}-panel-${index}`}
+              tabIndex={isActive ? 0 : -1}
+              onClick={() => select(label)}
+              onKeyDown={(event) => handleKeyDown(event, index)}
+              className={cn(
+                "-mb-px whitespace-nowrap border-b-2 px-3 py-2 text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                isActive
+                  ? "border-primary-500 text-primary-600 dark:text-primary-400"
+                  : "border-transparent text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {label}
+            </button>
+          );
+        })}
+      </div>
+
+      {tabs.map((tab, index) => (
+        <div
+          key={tab.props.label}
+          id={`${baseId}-panel-${index}`}
+          role="tabpanel"
+          aria-labelledby={`${baseId}-tab-${index}`}
+          hidden={tab.props.label !== active}
+          className="px-4 [&>pre]:my-4"
+        >
+          {tab}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { OgCard } from "./og-card";
@@ -0,0 +1,171 @@
+import type { VentureStatus } from "@/types/venture";
+import { statusConfig } from "@/types/venture";
+import { siteConfig } from "@/lib/site";
+
+/**
+ * Status Pill Colours
+ *
+ * Hex equivalents of the status badge variants (next/og can't read the
+ * Tailwind theme)
+ */
+const statusColors: Record<VentureStatus, string> = {
+  building: "#f59e0b", // warning-500
+  concept: "#3b82f6", // primary-500
+  research: "#a3a3a3", // neutral-400
+  live: "#22c55e", // success-500
+};
+
+/**
+ * OgCard Props
+ */
+interface OgCardProps {
+  /** Card title (post or venture name) */
+  title: string;
+  /** Small label above the title, e.g. the category */
+  eyebrow?: string;
+  /** Summary under the title */
+  description?: string;
+  /** Tags or technologies, shown as chips (first four) */
+  tags?: string[];
+  /** Facts shown in the footer, e.g. the reading time */
+  meta?: string[];
+  /** Venture status, shown as a pill */
+  status?: VentureStatus;
+  /** Cover image data URL, drawn behind the text */
+  cover?: string | null;
+}
+
+/**
+ * Open Graph Card
+ *
+ * Branded 1200x630 share image rendered by next/og. Layout uses inline
+ * styles and flexbox only, the subset next/og supports. With a cover
+ * image the text sits on a darkened photo; without one, on the brand
+ * gradient.
+ */
+export function OgCard({ title, eyebrow, description, tags = [], meta = [], status, cover }: OgCardProps) {
+  return (
+    <div
+      style={{
+        position: "relative",
+        display: "flex",
+        width: "100%",
+        height: "100%",
+        backgroundColor: "#0a0a0a",
+        backgroundImage: "linear-gradient(135deg, #172554 0%, #0a0a0a 55%, #0a0a0a 100%)",
+        color: "#fafafa",
+      }}
+    >
+      {cover && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={cover}
+          alt=""
+          width={1200}
+          height={630}
+          style={{ position: "absolute", top: 0, left: 0, width: "100%", height: "100%", objectFit: "cover" }}
+        />
+      )}
+      {cover && (
+        <div
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            width: "100%",
+            height: "100%",
+            backgroundImage: "linear-gradient(90deg, rgba(10,10,10,0.94) 0%, rgba(10,10,10,0.8) 55%, rgba(10,10,10,0.45) 100%)",
+          }}
+        />
+      )}
+
+      <div
+        style={{
+          position: "relative",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          width: "100%",
+          height: "100%",
+          padding: "64px 72px",
+        }}
+      >
+        {/* Header */}
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+          <div style={{ display: "flex", alignItems: "center", gap: 16, fontSize: 30, fontWeight: 700 }}>
+            <div style={{ width: 20, height: 20, borderRadius: 6, backgroundColor: "#3b82f6" }} />
+            {siteConfig.name}
+          </div>
+          {status && (
+            <div
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: 10,
+                padding: "8px 20px",
+                borderRadius: 999,
+                border: `2px solid ${statusColors[status]}`,
+                color: statusColors[status],
+                fontSize: 24,
+              }}
+            >
+              <div style={{ width: 12, height: 12, borderRadius: 999, backgroundColor: statusColors[status] }} />
+              {statusConfig[status].label}
+            </div>
+          )}
+        </div>
+
+        {/* Title */}
+        <div style={{ display: "flex", flexDirection: "column", gap: 20, maxWidth: 960 }}>
+          {eyebrow && (
+            <div style={{ fontSize: 26, color: "#60a5fa", textTransform: "uppercase", letterSpacing: 2 }}>
+              {eyebrow}
+            </div>
+          )}
+          <div style={{ fontSize: title.length > 60 ? 54 : 66, fontWeight: 700, lineHeight: 1.1 }}>
+            {title}
+          </div>
+          {description && (
+            <div
+              style={{
+                display: "block",
+                fontSize: 28,
+                lineHeight: 1.4,
+                color: "#d4d4d4",
+                lineClamp: 2,
+              }}
+            >
+              {description}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 24 }}>
+          <div style={{ display: "flex", gap: 12 }}>
+            {tags.slice(0, 4).map((tag) => (
+              <div
+                key={tag}
+                style={{
+                  padding: "6px 16px",
+                  borderRadius: 8,
+                  backgroundColor: "rgba(59,130,246,0.18)",
+                  color: "#bfdbfe",
+                  fontSize: 22,
+                }}
+              >
+                {tag}
+              </div>
+            ))}
+          </div>
+          <div style={{ display: "flex", gap: 24, fontSize: 22, color: "#a3a3a3" }}>
+            {meta.map((item) => (
+              <div key={item}>{item}</div>
+            ))}
+            <div>{new URL(siteConfig.url).host}</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { highlightParts } from "@/lib/search/engine";
+
+interface HighlightProps {
+  /** Text to render */
+  text: string;
+  /** Query terms to mark */
+  terms: string[];
+}
+
+/**
+ * Highlight
+ * 
+ * Renders text with query matches wrapped in <mark>
+ */
+export function Highlight({ text, terms }: HighlightProps) {
+  return (
+    <>
+      {highlightParts(text, terms).map((part, index) =>
+        part.match ? (
+          <mark
+            key={index}
+            className="bg-primary-100 text-primary-900 dark:bg-primary-900/50 dark:text-primary-100 rounded-sm px-0.5"
+          >
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  );
+}
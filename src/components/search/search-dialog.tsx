@@ -0,0 +1,202 @@
+"use client";
+
+import * as React from "react";
+import { createPortal } from "react-dom";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Search, X, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { searchDocuments } from "@/lib/search/engine";
+import type { SearchDocument } from "@/lib/search/types";
+import { SearchResultItem } from "./search-result-item";
+
+/** Results shown in the dialog before linking to /search */
+const DIALOG_RESULT_LIMIT = 8;
+
+let indexPromise: Promise<SearchDocument[]> | null = null;
+
+/**
+ * Load the static search index once per page load
+ */
+function loadSearchIndex(): Promise<SearchDocument[]> {
+  if (!indexPromise) {
+    indexPromise = fetch("/search-index.json")
+      .then((response) => {
+        if (!response.ok) throw new Error(`Search index request failed: ${response.status}`);
+        return response.json() as Promise<SearchDocument[]>;
+      })
+      .catch((error) => {
+        // Allow a retry on the next open
+        indexPromise = null;
+        throw error;
+      });
+  }
+  return indexPromise;
+}
+
+/**
+ * Search Dialog Props
+ */
+interface SearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Search Dialog
+ * 
+ * Command-palette style search over the static index.
+ * Arrow keys move the selection, Enter opens it, Escape closes.
+ */
+export function SearchDialog({ open, onOpenChange }: SearchDialogProps) {
+  const router = useRouter();
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  const [documents, setDocuments] = React.useState<SearchDocument[] | null>(null);
+  const [error, setError] = React.useState(false);
+  const [query, setQuery] = React.useState("");
+  const [activeIndex, setActiveIndex] = React.useState(0);
+
+  /**
+   * Load the index and focus the input when opened
+   */
+  React.useEffect(() => {
+    if (!open) return;
+
+    inputRef.current?.focus();
+    let cancelled = false;
+
+    loadSearchIndex()
+      .then((loaded) => {
+        if (!cancelled) setDocuments(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  /**
+   * Lock background scroll while open
+   */
+  React.useEffect(() => {
+    if (!open) return;
+    const previous = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = previous;
+    };
+  }, [open]);
+
+  const { results, terms } = React.useMemo(
+    () => searchDocuments(documents ?? [], query, {}, DIALOG_RESULT_LIMIT),
+    [documents, query]
+  );
+
+  const close = () => {
+    onOpenChange(false);
+    setQuery("");
+    setActiveIndex(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      close();
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((index) => Math.min(index + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const target = results[activeIndex]?.document.url ?? (query ? `/search?q=${encodeURIComponent(query)}` : null);
+      if (target) {
+        close();
+        router.push(target);
+      }
+    }
+  };
+
+  if (!open) return null;
+
+  // Portalled to <body> so a blurred/fixed parent (Navigation) can't trap it
+  return createPortal(
+    <div className="fixed inset-0 z-60 flex items-start justify-center p-4 pt-[10vh]" onKeyDown={handleKeyDown}>
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={close} aria-hidden="true" />
+
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search"
+        className="relative w-full max-w-2xl rounded-lg border border-border bg-card text-card-foreground shadow-xl"
+      >
+        {/* Input */}
+        <div className="flex items-center gap-3 border-b border-border px-4">
+          <Search className="h-5 w-5 text-muted-foreground" />
+          <input
+            ref={inputRef}
+            type="search"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            placeholder="Search articles, ventures, technologies..."
+            aria-label="Search query"
+            className="h-14 flex-1 bg-transparent text-base focus:outline-none"
+          />
+          <Button variant="ghost" size="icon" onClick={close} aria-label="Close search" className="rounded-full">
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {/* Results */}
+        <div className="max-h-[60vh] overflow-y-auto p-2" aria-live="polite">
+          {error ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">Search is unavailable right now.</p>
+          ) : !documents ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : query.trim() === "" ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">
+              Type to search {documents.length} articles, ventures and roles.
+            </p>
+          ) : results.length === 0 ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">No results for &ldquo;{query}&rdquo;.</p>
+          ) : (
+            results.map((result, index) => (
+              <SearchResultItem
+                key={result.document.id}
+                result={result}
+                terms={terms}
+                active={index === activeIndex}
+                compact
+                onSelect={close}
+              />
+            ))
+          )}
+        </div>
+
+        {/* Footer */}
+        {query.trim() !== "" && (
+          <div className="border-t border-border px-4 py-3 text-sm">
+            <Link
+              href={`/search?q=${encodeURIComponent(query)}`}
+              onClick={close}
+              className="text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300 font-medium"
+            >
+              See all results and filters
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,69 @@
+import Link from "next/link";
+import { FileText, Rocket, Briefcase } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { SearchDocumentType, SearchResult } from "@/lib/search/types";
+import { Highlight } from "./highlight";
+
+/**
+ * Display labels and icons per document type
+ */
+export const searchTypeConfig: Record<
+  SearchDocumentType,
+  { label: string; icon: React.ComponentType<{ className?: string }> }
+> = {
+  post: { label: "Article", icon: FileText },
+  venture: { label: "Venture", icon: Rocket },
+  experience: { label: "Experience", icon: Briefcase },
+};
+
+interface SearchResultItemProps {
+  result: SearchResult;
+  terms: string[];
+  /** Keyboard-selected state (dialog) */
+  active?: boolean;
+  /** Compact layout without snippet (dialog) */
+  compact?: boolean;
+  onSelect?: () => void;
+}
+
+/**
+ * Search Result Item
+ * 
+ * One ranked result with highlighted title and excerpt
+ */
+export function SearchResultItem({ result, terms, active = false, compact = false, onSelect }: SearchResultItemProps) {
+  const { document } = result;
+  const { label, icon: Icon } = searchTypeConfig[document.type];
+
+  return (
+    <Link
+      href={document.url}
+      onClick={onSelect}
+      className={cn(
+        "flex gap-3 rounded-lg p-3 transition-colors hover:bg-muted",
+        active && "bg-muted"
+      )}
+    >
+      <Icon className="h-5 w-5 mt-0.5 shrink-0 text-primary-600 dark:text-primary-400" />
+      <div className="min-w-0 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-semibold text-foreground">
+            <Highlight text={document.title} terms={terms} />
+          </span>
+          <Badge variant="outline" size="sm">
+            {label}
+          </Badge>
+          {document.status && (
+            <Badge variant="default" size="sm">
+              {document.status}
+            </Badge>
+          )}
+        </div>
+        <p className={cn("text-sm text-muted-foreground", compact ? "line-clamp-1" : "line-clamp-3")}>
+          <Highlight text={compact ? document.description : result.snippet} terms={terms} />
+        </p>
+      </div>
+    </Link>
+  );
+}
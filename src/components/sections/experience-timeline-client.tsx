@@ -4,7 +4,7 @@ import * as React from "react";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
-import { Briefcase, Calendar } from "lucide-react";
+import { Briefcase, Calendar, ChevronDown } from "lucide-react";
 import type { Experience } from "@/types/experience";
 
 /**
@@ -127,6 +127,18 @@ function ExperienceItem({ experience, isLast, index, isVisible }: ExperienceItem
               </div>
             )}
 
+            {/* Full Write-up */}
+            {experience.details && (
+              <details className="group">
+                <summary className="flex items-center gap-1 cursor-pointer text-sm font-semibold text-primary-600 dark:text-primary-400 hover:underline list-none [&::-webkit-details-marker]:hidden">
+                  <ChevronDown className="h-4 w-4 transition-transform group-open:rotate-180" />
+                  <span className="group-open:hidden">Read more</span>
+                  <span className="hidden group-open:inline">Show less</span>
+                </summary>
+                <div className="mt-3">{experience.details}</div>
+              </details>
+            )}
+
             {/* Tech Stack */}
             <div className="space-y-2">
               <h4 className="text-sm font-semibold text-foreground">
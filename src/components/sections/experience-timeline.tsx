@@ -1,5 +1,6 @@
 import { getAllExperiences } from "@/lib/experiences";
 import type { Experience } from "@/types/experience";
+import { MdxContent } from "@/components/mdx";
 import { ExperienceTimelineClient } from "./experience-timeline-client";
 
 /**
@@ -28,6 +29,10 @@ function convertMdxExperience(mdxExp: ReturnType<typeof getAllExperiences>[numbe
     description: mdxExp.frontmatter.description,
     achievements: mdxExp.frontmatter.achievements,
     technologies: mdxExp.frontmatter.technologies,
+    // Rendered on the server; the client component only places it
+    details: mdxExp.content.trim() ? (
+      <MdxContent source={mdxExp.content} collection="experiences" />
+    ) : undefined,
   };
 }
 
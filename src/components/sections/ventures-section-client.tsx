@@ -96,7 +96,7 @@ export function VenturesSectionClient({
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 md:gap-8">
           {featuredVentures.map((venture, index) => (
             <div
-              key={venture.id}
+              key={venture.slug}
               className={cn(
                 "transition-all duration-700 ease-out",
                 isVisible
@@ -1,5 +1,4 @@
-import { getAllVentures } from "@/lib/ventures";
-import type { Venture } from "@/types/venture";
+import { getAllVentures, toVenture } from "@/lib/ventures";
 import { VenturesSectionClient } from "./ventures-section-client";
 
 /**
@@ -14,25 +13,6 @@ interface VenturesSectionProps {
   className?: string;
 }
 
-/**
- * Convert MDX venture to component venture format
- */
-function convertMdxVenture(mdxVenture: ReturnType<typeof getAllVentures>[number]): Venture {
-  return {
-    id: mdxVenture.slug,
-    name: mdxVenture.frontmatter.title,
-    description: mdxVenture.frontmatter.description,
-    icon: mdxVenture.frontmatter.icon,
-    status: mdxVenture.frontmatter.status,
-    metrics: mdxVenture.frontmatter.metrics || {},
-    technologies: mdxVenture.frontmatter.technologies,
-    coverImage: mdxVenture.frontmatter.coverImage,
-    screenshots: mdxVenture.frontmatter.screenshots,
-    link: mdxVenture.frontmatter.link,
-    github: mdxVenture.frontmatter.github,
-  };
-}
-
 /**
  * VenturesSection Component (Server Component)
  * 
@@ -44,8 +24,7 @@ export function VenturesSection({
   className,
 }: VenturesSectionProps) {
   // Load ventures from MDX (server-side)
-  const mdxVentures = getAllVentures();
-  const ventures = mdxVentures.map(convertMdxVenture);
+  const ventures = getAllVentures().map(toVenture);
 
   return (
     <VenturesSectionClient
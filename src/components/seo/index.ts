@@ -0,0 +1 @@
+export { JsonLd } from "./json-ld";
@@ -0,0 +1,24 @@
+import type { JsonLd as JsonLdData } from "@/lib/structured-data";
+
+/**
+ * JsonLd Props
+ */
+interface JsonLdProps {
+  /** One or more validated documents from lib/structured-data */
+  data: JsonLdData | JsonLdData[];
+}
+
+/**
+ * JSON-LD Script
+ *
+ * Emits structured data for search engines. "<" is escaped so content
+ * can't close the script element early.
+ */
+export function JsonLd({ data }: JsonLdProps) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, "\\u003c") }}
+    />
+  );
+}
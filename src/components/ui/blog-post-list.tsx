@@ -8,6 +8,9 @@ import { cn } from "@/lib/utils";
 import { Calendar, Clock, ArrowRight } from "lucide-react";
 import type { BlogPost } from "@/types/blog";
 import Image from "next/image";
+import { TagBadge, CategoryBadge } from "@/components/blog/taxonomy-badge";
+import { postHref } from "@/lib/routes";
+import { formatCalendarDate } from "@/lib/dates";
 
 /**
  * BlogPostList Props
@@ -22,90 +25,82 @@ interface BlogPostListProps {
 /**
  * BlogPostCard Component
  * 
- * Individual blog post card with hover effects
+ * Individual blog post card with hover effects.
+ * The title link is stretched over the whole card so the tag and
+ * category badges can be links of their own.
  */
 interface BlogPostCardProps {
   post: BlogPost;
 }
 
 function BlogPostCard({ post }: BlogPostCardProps) {
-  const { slug, frontmatter } = post;
-  const formattedDate = new Date(frontmatter.date).toLocaleDateString("en-US", {
-    year: "numeric",
-    month: "long",
-    day: "numeric",
-  });
+  const { slug, frontmatter, stats } = post;
+  const formattedDate = formatCalendarDate(frontmatter.date);
 
   return (
-    <Link href={`/blog/${slug}`}>
-      <Card className="group h-full transition-all duration-300 hover:scale-[1.02] hover:-translate-y-1 hover:shadow-xl cursor-pointer">
-        {/* Cover Image (if provided) */}
-        {frontmatter.coverImage && (
-          <div className="relative aspect-video w-full overflow-hidden rounded-t-lg">
-            <Image
-              src={frontmatter.coverImage}
-              alt={frontmatter.title}
-              fill
-              className="object-cover group-hover:scale-105 transition-transform duration-300"
-            />
-          </div>
-        )}
+    <Card className="group relative h-full transition-all duration-300 hover:scale-[1.02] hover:-translate-y-1 hover:shadow-xl cursor-pointer">
+      {/* Cover Image (if provided) */}
+      {frontmatter.coverImage && (
+        <div className="relative aspect-video w-full overflow-hidden rounded-t-lg">
+          <Image
+            src={frontmatter.coverImage}
+            alt={frontmatter.title}
+            fill
+            className="object-cover group-hover:scale-105 transition-transform duration-300"
+          />
+        </div>
+      )}
 
-        <CardHeader>
-          {/* Category Badge */}
-          <Badge variant="primary" size="sm" className="w-fit mb-2">
-            {frontmatter.category}
-          </Badge>
+      <CardHeader>
+        {/* Category Badge */}
+        <CategoryBadge category={frontmatter.category} size="sm" className="mb-2" />
 
-          {/* Title */}
-          <CardTitle className="text-xl md:text-2xl group-hover:text-primary-600 dark:group-hover:text-primary-400 transition-colors line-clamp-2">
+        {/* Title */}
+        <CardTitle className="text-xl md:text-2xl group-hover:text-primary-600 dark:group-hover:text-primary-400 transition-colors line-clamp-2">
+          <Link href={postHref(slug)} className="after:absolute after:inset-0">
             {frontmatter.title}
-          </CardTitle>
+          </Link>
+        </CardTitle>
 
-          {/* Description */}
-          <CardDescription className="line-clamp-3 mt-2">
-            {frontmatter.description}
-          </CardDescription>
-        </CardHeader>
+        {/* Description */}
+        <CardDescription className="line-clamp-3 mt-2">
+          {frontmatter.description}
+        </CardDescription>
+      </CardHeader>
 
-        <CardContent>
-          {/* Tags */}
-          <div className="flex flex-wrap gap-2">
-            {frontmatter.tags.slice(0, 3).map((tag) => (
-              <Badge key={tag} variant="outline" size="sm">
-                {tag}
-              </Badge>
-            ))}
-            {frontmatter.tags.length > 3 && (
-              <Badge variant="outline" size="sm">
-                +{frontmatter.tags.length - 3}
-              </Badge>
-            )}
-          </div>
-        </CardContent>
+      <CardContent>
+        {/* Tags */}
+        <div className="flex flex-wrap gap-2">
+          {frontmatter.tags.slice(0, 3).map((tag) => (
+            <TagBadge key={tag} tag={tag} size="sm" />
+          ))}
+          {frontmatter.tags.length > 3 && (
+            <Badge variant="outline" size="sm">
+              +{frontmatter.tags.length - 3}
+            </Badge>
+          )}
+        </div>
+      </CardContent>
 
-        <CardFooter className="flex items-center justify-between text-sm text-muted-foreground">
-          <div className="flex items-center gap-4">
-            {/* Date */}
-            <div className="flex items-center gap-1">
-              <Calendar className="h-4 w-4" />
-              <span>{formattedDate}</span>
-            </div>
+      <CardFooter className="flex items-center justify-between text-sm text-muted-foreground">
+        <div className="flex items-center gap-4">
+          {/* Date */}
+          <div className="flex items-center gap-1">
+            <Calendar className="h-4 w-4" />
+            <span>{formattedDate}</span>
+          </div>
 
-            {/* Reading Time */}
-            {frontmatter.readingTime && (
-              <div className="flex items-center gap-1">
-                <Clock className="h-4 w-4" />
-                <span>{frontmatter.readingTime}</span>
-              </div>
-            )}
+          {/* Reading Time */}
+          <div className="flex items-center gap-1">
+            <Clock className="h-4 w-4" />
+            <span>{frontmatter.readingTime || stats.readingTime}</span>
           </div>
+        </div>
 
-          {/* Read More Arrow */}
-          <ArrowRight className="h-4 w-4 group-hover:translate-x-1 transition-transform" />
-        </CardFooter>
-      </Card>
-    </Link>
+        {/* Read More Arrow */}
+        <ArrowRight className="h-4 w-4 group-hover:translate-x-1 transition-transform" />
+      </CardFooter>
+    </Card>
   );
 }
 
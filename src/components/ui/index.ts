@@ -11,3 +11,4 @@ export {
 export { Badge, badgeVariants, type BadgeProps } from "./badge";
 export { VentureCard } from "./venture-card";
 export { BlogPostList } from "./blog-post-list";
+export { MetricIcon } from "./metric-icon";
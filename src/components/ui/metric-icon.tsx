@@ -0,0 +1,39 @@
+import * as React from "react";
+import { Award, Clock, Rocket, Target, TrendingUp, Users, Zap } from "lucide-react";
+import type { MetricIconName } from "@/types/venture";
+
+/**
+ * Metric Icon Map
+ * 
+ * Maps metric icon identifiers to Lucide React components
+ */
+const metricIconMap: Record<MetricIconName, React.ComponentType<{ className?: string }>> = {
+  users: Users,
+  trending: TrendingUp,
+  target: Target,
+  zap: Zap,
+  clock: Clock,
+  rocket: Rocket,
+  award: Award,
+};
+
+/**
+ * MetricIcon Props
+ */
+interface MetricIconProps {
+  /** Icon identifier from the metric */
+  icon: MetricIconName;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * MetricIcon Component
+ * 
+ * Renders a venture metric's icon; usable from server and client
+ * components
+ */
+export function MetricIcon({ icon, className }: MetricIconProps) {
+  const Icon = metricIconMap[icon];
+  return <Icon className={className} />;
+}
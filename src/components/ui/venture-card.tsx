@@ -5,6 +5,10 @@ import { Card, CardHeader, CardDescription, CardContent, CardFooter } from "@/co
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { projectHref } from "@/lib/routes";
+import { formatMetric } from "@/lib/metrics";
+import { formatCalendarDate } from "@/lib/dates";
+import { MetricIcon } from "@/components/ui/metric-icon";
 import { 
   Scale, 
   Wallet, 
@@ -15,7 +19,8 @@ import {
   Users,
   Leaf,
   Heart,
-  BookOpen
+  BookOpen,
+  History
 } from "lucide-react";
 import Image from "next/image";
 import Link from "next/link";
@@ -57,58 +62,8 @@ export function VentureCard({ venture, className }: VentureCardProps) {
   const Icon = iconMap[venture.icon] || Scale;
   const statusInfo = statusConfig[venture.status];
 
-  /**
-   * Extract first 3 metrics for display
-   * Dynamically reads all metric keys from the venture object
-   */
-  const displayMetrics = React.useMemo(() => {
-    const metrics = [];
-    
-    // Map of common metric keys to icons
-    const iconMapping: Record<string, React.ComponentType<{ className?: string }>> = {
-      users: Users,
-      accuracy: TrendingUp,
-      speed: Zap,
-      savings: TrendingUp,
-      farmers: Users,
-      consultations: Users,
-      students: Users,
-      improvement: TrendingUp,
-      yield: TrendingUp,
-      response: Zap,
-      subjects: TrendingUp,
-    };
-    
-    // Convert all metrics to display format
-    Object.entries(venture.metrics).forEach(([key, value]) => {
-      // Skip customLabel/customValue (legacy format)
-      if (key === 'customLabel' || key === 'customValue') return;
-      
-      // Capitalize first letter of key for label
-      const label = key.charAt(0).toUpperCase() + key.slice(1);
-      const icon = iconMapping[key.toLowerCase()] || TrendingUp;
-      
-      metrics.push({ 
-        label, 
-        value: String(value),
-        icon 
-      });
-    });
-    
-    // Handle legacy customLabel/customValue format
-    if (venture.metrics.customLabel && venture.metrics.customValue) {
-      metrics.push({ 
-        label: String(venture.metrics.customLabel), 
-        value: String(venture.metrics.customValue),
-        icon: TrendingUp 
-      });
-    }
-    
-    return metrics.slice(0, 3); // Max 3 metrics
-  }, [venture.metrics]);
-
   return (
-    <Link href={`/projects/${venture.id}`}>
+    <Link href={projectHref(venture.slug)}>
       <Card
         className={cn(
           // Base styles
@@ -179,23 +134,20 @@ export function VentureCard({ venture, className }: VentureCardProps) {
         </CardHeader>
 
       <CardContent>
-        {/* Metrics Display */}
-        {displayMetrics.length > 0 && (
+        {/* Metrics Display - first 3 */}
+        {venture.metrics.length > 0 && (
           <div className="grid grid-cols-3 gap-4 mb-4">
-            {displayMetrics.map((metric, index) => {
-              const MetricIcon = metric.icon;
-              return (
-                <div key={index} className="flex flex-col items-center text-center">
-                  <div className="flex items-center gap-1 text-muted-foreground mb-1">
-                    <MetricIcon className="h-3 w-3" />
-                    <span className="text-xs">{metric.label}</span>
-                  </div>
-                  <span className="text-sm font-semibold text-foreground">
-                    {metric.value}
-                  </span>
+            {venture.metrics.slice(0, 3).map((metric) => (
+              <div key={metric.label} className="flex flex-col items-center text-center">
+                <div className="flex items-center gap-1 text-muted-foreground mb-1">
+                  <MetricIcon icon={metric.icon} className="h-3 w-3" />
+                  <span className="text-xs">{metric.label}</span>
                 </div>
-              );
-            })}
+                <span className="text-sm font-semibold text-foreground">
+                  {formatMetric(metric)}
+                </span>
+              </div>
+            ))}
           </div>
         )}
 
@@ -215,6 +167,17 @@ export function VentureCard({ venture, className }: VentureCardProps) {
             </span>
           )}
         </div>
+
+        {/* Last Updated */}
+        {venture.lastUpdated && (
+          <p className="flex items-center gap-1.5 mt-4 text-xs text-muted-foreground">
+            <History className="h-3 w-3" />
+            Updated{" "}
+            <time dateTime={venture.lastUpdated}>
+              {formatCalendarDate(venture.lastUpdated, { month: "short", day: "numeric", year: "numeric" })}
+            </time>
+          </p>
+        )}
       </CardContent>
 
       {/* Action Buttons - appear on hover */}
@@ -0,0 +1,82 @@
+import { ArrowRight, Flag } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { formatCalendarDate } from "@/lib/dates";
+import { milestoneAnchor } from "@/lib/routes";
+import { statusConfig, type VentureMilestone } from "@/types/venture";
+
+/**
+ * MilestoneTimeline Props
+ */
+interface MilestoneTimelineProps {
+  /** Milestones, oldest first */
+  milestones: VentureMilestone[];
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Milestone Timeline
+ * 
+ * Vertical timeline of a venture's progress. Status changes show the
+ * transition (Concept -> Building) and get a filled marker; each entry
+ * has an anchor the changelog feed links to.
+ */
+export function MilestoneTimeline({ milestones, className }: MilestoneTimelineProps) {
+  if (milestones.length === 0) return null;
+
+  return (
+    <ol className={cn("relative border-l-2 border-border ml-3", className)}>
+      {milestones.map((milestone) => {
+        const { transition } = milestone;
+
+        return (
+          <li
+            key={milestoneAnchor(milestone)}
+            id={milestoneAnchor(milestone)}
+            className="relative pl-8 pb-8 last:pb-0 scroll-mt-24"
+          >
+            {/* Marker */}
+            <span
+              className={cn(
+                "absolute -left-[13px] top-0.5 flex h-6 w-6 items-center justify-center rounded-full border-4 border-background",
+                transition ? "bg-primary-500" : "bg-muted"
+              )}
+            >
+              {transition && <Flag className="h-2.5 w-2.5 text-white" />}
+            </span>
+
+            <time dateTime={milestone.date} className="block text-sm text-muted-foreground mb-1">
+              {formatCalendarDate(milestone.date)}
+            </time>
+            <h3 className="text-lg font-semibold leading-snug">{milestone.title}</h3>
+
+            {transition && (
+              <div className="flex flex-wrap items-center gap-2 mt-2">
+                {transition.from ? (
+                  <>
+                    <span className="sr-only">Status changed from</span>
+                    <Badge variant={statusConfig[transition.from].variant} size="sm">
+                      {statusConfig[transition.from].label}
+                    </Badge>
+                    <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" aria-hidden="true" />
+                    <span className="sr-only">to</span>
+                  </>
+                ) : (
+                  <span className="sr-only">Status:</span>
+                )}
+                <Badge variant={statusConfig[transition.to].variant} size="sm">
+                  {statusConfig[transition.to].label}
+                </Badge>
+              </div>
+            )}
+
+            {milestone.description && (
+              <p className="mt-2 text-muted-foreground leading-relaxed">{milestone.description}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
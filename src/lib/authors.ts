@@ -0,0 +1,104 @@
+import type { AuthorFrontmatter } from "@/types/author";
+import type { BlogPost } from "@/types/blog";
+import { authorFrontmatterSchema, ContentValidationError } from "@/lib/schemas";
+import { defineCollection, memoizeContent, type CollectionEntry } from "@/lib/content";
+import { getAllPosts } from "@/lib/mdx";
+import { slugify } from "@/lib/utils";
+
+export type { AuthorFrontmatter };
+
+export type Author = CollectionEntry<AuthorFrontmatter>;
+
+/**
+ * Author Collection
+ *
+ * MDX files in content/authors, sorted by name
+ */
+export const authors = defineCollection({
+  directory: "authors",
+  schema: authorFrontmatterSchema,
+  sort: (a, b) => a.frontmatter.name.localeCompare(b.frontmatter.name),
+});
+
+/**
+ * Map every post (drafts included) to its authors
+ *
+ * Frontmatter references are matched by slug, so "Ammly" and "ammly"
+ * both resolve to content/authors/ammly.mdx. Any unknown reference
+ * throws, failing the build before a post renders with a broken byline.
+ */
+const loadPostAuthors = memoizeContent((): Map<string, Author[]> => {
+  const bylines = new Map<string, Author[]>();
+
+  for (const post of getAllPosts(true)) {
+    const resolved: Author[] = [];
+    const unknown: string[] = [];
+
+    for (const reference of post.frontmatter.author) {
+      const author = authors.getBySlug(slugify(reference));
+      if (author) {
+        if (!resolved.includes(author)) resolved.push(author);
+      } else {
+        unknown.push(reference);
+      }
+    }
+
+    if (unknown.length > 0) {
+      throw new ContentValidationError(
+        `content/blog/${post.slug}.mdx`,
+        unknown.map(
+          (reference) =>
+            `author: "${reference}" does not match any file in content/authors (known: ${authors.getSlugs().join(", ") || "none"})`
+        )
+      );
+    }
+
+    bylines.set(post.slug, resolved);
+  }
+
+  return bylines;
+});
+
+/**
+ * Get all author slugs
+ */
+export function getAllAuthorSlugs(): string[] {
+  return authors.getSlugs();
+}
+
+/**
+ * Get a single author by slug
+ *
+ * @throws ContentValidationError if the frontmatter is invalid
+ */
+export function getAuthorBySlug(slug: string): Author | null {
+  return authors.getBySlug(slug);
+}
+
+/**
+ * Get all authors, sorted by name
+ */
+export function getAllAuthors(): Author[] {
+  return authors.getAll();
+}
+
+/**
+ * Get a post's authors in byline order
+ *
+ * @throws ContentValidationError if any post references an unknown author
+ */
+export function getPostAuthors(post: BlogPost): Author[] {
+  return loadPostAuthors().get(post.slug) ?? [];
+}
+
+/**
+ * Get published posts written or co-written by an author
+ *
+ * @param slug - Author slug
+ * @returns Posts, newest first
+ */
+export function getPostsByAuthor(slug: string): BlogPost[] {
+  return getAllPosts().filter((post) =>
+    getPostAuthors(post).some((author) => author.slug === slug)
+  );
+}
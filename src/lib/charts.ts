@@ -0,0 +1,97 @@
+import type { MetricPoint } from "@/types/venture";
+import { parseCalendarDate } from "@/lib/dates";
+
+/**
+ * Chart Frame
+ *
+ * Drawing area inside an SVG viewBox, in viewBox units
+ */
+export interface ChartFrame {
+  width: number;
+  height: number;
+
+  /** Space kept clear on each side (for labels and stroke width) */
+  inset: { top: number; right: number; bottom: number; left: number };
+}
+
+/**
+ * Plotted Point
+ *
+ * A measurement with its position in the frame
+ */
+export interface PlottedPoint extends MetricPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Plotted Series
+ */
+export interface PlottedSeries {
+  points: PlottedPoint[];
+
+  /** y of the lowest value on the scale (the area fill's floor) */
+  baseline: number;
+
+  /** Value range of the y scale */
+  domain: { min: number; max: number };
+}
+
+/**
+ * Day number of a YYYY-MM-DD date, so uneven gaps plot to scale
+ */
+function toDay(date: string): number {
+  const { year, month, day } = parseCalendarDate(date);
+  return Date.UTC(year, month - 1, day) / 86_400_000;
+}
+
+/**
+ * Position a series in a chart frame
+ *
+ * x is proportional to time; y spans the value range, or starts at
+ * zero when zeroBased is set so growth isn't exaggerated. A single
+ * point or a flat series is centred.
+ *
+ * @param series - Points oldest first
+ * @param frame - Drawing area
+ * @param zeroBased - Include zero in the y scale
+ */
+export function plotSeries(series: MetricPoint[], frame: ChartFrame, zeroBased = false): PlottedSeries {
+  const { width, height, inset } = frame;
+  const plotWidth = width - inset.left - inset.right;
+  const plotHeight = height - inset.top - inset.bottom;
+
+  const days = series.map((point) => toDay(point.date));
+  const values = series.map((point) => point.value);
+  const firstDay = Math.min(...days);
+  const daySpan = Math.max(...days) - firstDay;
+  const min = zeroBased ? Math.min(0, ...values) : Math.min(...values);
+  const max = Math.max(...values);
+  const valueSpan = max - min;
+
+  const points = series.map((point, index) => ({
+    ...point,
+    x: inset.left + (daySpan === 0 ? plotWidth / 2 : ((days[index] - firstDay) / daySpan) * plotWidth),
+    y: inset.top + (valueSpan === 0 ? plotHeight / 2 : (1 - (point.value - min) / valueSpan) * plotHeight),
+  }));
+
+  return { points, baseline: inset.top + plotHeight, domain: { min, max } };
+}
+
+/**
+ * SVG path through plotted points
+ */
+export function linePath(points: PlottedPoint[]): string {
+  return points.map((point, index) => `${index === 0 ? "M" : "L"}${point.x.toFixed(2)},${point.y.toFixed(2)}`).join(" ");
+}
+
+/**
+ * Closed SVG path filling the area between the line and the baseline
+ */
+export function areaPath(points: PlottedPoint[], baseline: number): string {
+  if (points.length === 0) return "";
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  return `${linePath(points)} L${last.x.toFixed(2)},${baseline.toFixed(2)} L${first.x.toFixed(2)},${baseline.toFixed(2)} Z`;
+}
@@ -0,0 +1,79 @@
+import fs from "fs";
+import { CONTENT_ROOT } from "./paths";
+import { siteToday } from "./schedule";
+
+/**
+ * Content Cache
+ * 
+ * Parsed content is memoized for the lifetime of the server process, so a
+ * build reads each MDX file once no matter how many pages use it.
+ * 
+ * In development a recursive watcher on content/ bumps a generation counter
+ * whenever a file changes, and memoized values from an older generation are
+ * recomputed on their next use. If the watcher cannot be started, caching is
+ * disabled in development so edits are never served stale.
+ * 
+ * Memoized values also expire when the site's calendar day changes, so
+ * indexes derived from published posts pick up scheduled posts on their
+ * publication date without a restart.
+ */
+
+interface WatchState {
+  generation: number;
+  watching: boolean;
+  watcher?: fs.FSWatcher;
+}
+
+// Kept on globalThis so hot reloads of this module reuse a single watcher
+const globalForContent = globalThis as typeof globalThis & {
+  __contentWatchState?: WatchState;
+};
+
+const isDevelopment = process.env.NODE_ENV === "development";
+
+function getWatchState(): WatchState {
+  if (!globalForContent.__contentWatchState) {
+    const state: WatchState = { generation: 0, watching: false };
+    globalForContent.__contentWatchState = state;
+
+    if (isDevelopment && fs.existsSync(CONTENT_ROOT)) {
+      try {
+        state.watcher = fs.watch(CONTENT_ROOT, { recursive: true }, () => {
+          state.generation++;
+        });
+        state.watcher.unref();
+        state.watching = true;
+      } catch (error) {
+        console.warn("Content watcher unavailable, content caching disabled:", error);
+      }
+    }
+  }
+
+  return globalForContent.__contentWatchState;
+}
+
+/**
+ * Memoize a content loader
+ * 
+ * @param load - Function that reads and parses content from disk
+ * @returns Function returning the cached value, reloading after content changes in dev
+ */
+export function memoizeContent<T>(load: () => T): () => T {
+  let cached: { generation: number; day: string; value: T } | null = null;
+
+  return () => {
+    const state = getWatchState();
+
+    if (isDevelopment && !state.watching) {
+      return load();
+    }
+
+    const day = siteToday();
+
+    if (!cached || cached.generation !== state.generation || cached.day !== day) {
+      cached = { generation: state.generation, day, value: load() };
+    }
+
+    return cached.value;
+  };
+}
@@ -0,0 +1,198 @@
+import fs from "fs";
+import path from "path";
+import matter from "gray-matter";
+import yaml from "js-yaml";
+import type { z } from "zod";
+import { validateFrontmatter, ContentValidationError } from "@/lib/schemas";
+import { CONTENT_ROOT } from "./paths";
+import { memoizeContent } from "./cache";
+import { computeStats, type ContentStats } from "./stats";
+
+/**
+ * Frontmatter parser options
+ *
+ * YAML's default schema turns unquoted dates into Date objects, rolling
+ * impossible ones over (2025-02-30 becomes March 2). The core schema
+ * keeps them as written, so the date schemas check the original text.
+ */
+const matterOptions = {
+  engines: {
+    yaml: (source: string): object => Object(yaml.load(source, { schema: yaml.CORE_SCHEMA })),
+  },
+};
+
+/**
+ * Collection Entry
+ * 
+ * A single parsed MDX document from a content collection
+ */
+export interface CollectionEntry<T> {
+  /** Entry slug (filename without extension) */
+  slug: string;
+
+  /** Validated frontmatter */
+  frontmatter: T;
+
+  /** Raw MDX content */
+  content: string;
+
+  /** Source file modification time (ISO string), fallback for "last updated" dates */
+  modifiedAt: string;
+
+  /** Word count, reading time and headings computed from the body */
+  stats: ContentStats;
+}
+
+/**
+ * Collection Index Entry
+ * 
+ * Entry without its body, for listings that only need metadata
+ */
+export type CollectionIndexEntry<T> = Omit<CollectionEntry<T>, "content">;
+
+/**
+ * Collection Config
+ * 
+ * Describes where a collection lives and how its entries are validated,
+ * ordered and filtered
+ */
+export interface CollectionConfig<TSchema extends z.ZodType> {
+  /** Directory under content/ (e.g. "blog") */
+  directory: string;
+
+  /** Frontmatter schema */
+  schema: TSchema;
+
+  /** Comparator used by getAll (defaults to filesystem order) */
+  sort?: (
+    a: CollectionEntry<z.output<TSchema>>,
+    b: CollectionEntry<z.output<TSchema>>
+  ) => number;
+
+  /** Predicate applied by getAll unless includeFiltered is set */
+  filter?: (entry: CollectionEntry<z.output<TSchema>>) => boolean;
+
+  /** Reason a slug can't be used (e.g. a route already owns its URL), if any */
+  checkSlug?: (slug: string) => string | undefined;
+}
+
+/**
+ * Collection
+ * 
+ * Typed accessors returned by defineCollection
+ */
+export interface Collection<T> {
+  /** Absolute path of the collection directory */
+  directory: string;
+
+  /** All entry slugs, regardless of filter */
+  getSlugs(): string[];
+
+  /** Single entry, or null when the file does not exist */
+  getBySlug(slug: string): CollectionEntry<T> | null;
+
+  /** Sorted entries, with the collection filter applied unless includeFiltered is set */
+  getAll(options?: { includeFiltered?: boolean }): CollectionEntry<T>[];
+
+  /** Same as getAll, without entry bodies */
+  getIndex(options?: { includeFiltered?: boolean }): CollectionIndexEntry<T>[];
+}
+
+/**
+ * Define Collection
+ * 
+ * Builds typed loaders for a directory of MDX files.
+ * Missing directories yield empty collections; unreadable files, broken
+ * YAML, invalid frontmatter and rejected slugs throw a
+ * ContentValidationError naming the file, so the build fails loudly.
+ * 
+ * The directory is read and parsed once into an index that every accessor
+ * shares (see memoizeContent for dev invalidation).
+ * 
+ * @example
+ * const talks = defineCollection({
+ *   directory: "talks",
+ *   schema: talkFrontmatterSchema,
+ *   sort: (a, b) => b.frontmatter.date.localeCompare(a.frontmatter.date),
+ * });
+ * 
+ * talks.getAll();
+ */
+export function defineCollection<TSchema extends z.ZodType>(
+  config: CollectionConfig<TSchema>
+): Collection<z.output<TSchema>> {
+  type Entry = CollectionEntry<z.output<TSchema>>;
+
+  const directory = path.join(CONTENT_ROOT, config.directory);
+
+  function readSlugs(): string[] {
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(directory)
+      .filter((file) => file.endsWith(".mdx"))
+      .map((file) => file.replace(/\.mdx$/, ""));
+  }
+
+  function readEntry(slug: string): Entry {
+    const fullPath = path.join(directory, `${slug}.mdx`);
+    const slugProblem = config.checkSlug?.(slug);
+
+    if (slugProblem) {
+      throw new ContentValidationError(path.relative(process.cwd(), fullPath), [`slug: ${slugProblem}`]);
+    }
+
+    try {
+      const { data, content } = matter(fs.readFileSync(fullPath, "utf8"), matterOptions);
+
+      return {
+        slug,
+        frontmatter: validateFrontmatter(config.schema, data, fullPath),
+        content,
+        modifiedAt: fs.statSync(fullPath).mtime.toISOString(),
+        stats: computeStats(content),
+      };
+    } catch (error) {
+      // Invalid content must fail the build rather than disappear, including
+      // files that can't be read or whose YAML doesn't parse
+      if (error instanceof ContentValidationError) throw error;
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new ContentValidationError(path.relative(process.cwd(), fullPath), [reason]);
+    }
+  }
+
+  const loadIndex = memoizeContent(
+    () => new Map(readSlugs().map((slug) => [slug, readEntry(slug)] as const))
+  );
+
+  function getSlugs(): string[] {
+    return [...loadIndex().keys()];
+  }
+
+  function getBySlug(slug: string): Entry | null {
+    return loadIndex().get(slug) ?? null;
+  }
+
+  function getAll({ includeFiltered = false }: { includeFiltered?: boolean } = {}): Entry[] {
+    let entries = [...loadIndex().values()];
+
+    if (config.filter && !includeFiltered) {
+      entries = entries.filter(config.filter);
+    }
+
+    return config.sort ? entries.sort(config.sort) : entries;
+  }
+
+  function getIndex(options?: { includeFiltered?: boolean }): CollectionIndexEntry<z.output<TSchema>>[] {
+    return getAll(options).map(({ slug, frontmatter, modifiedAt, stats }) => ({
+      slug,
+      frontmatter,
+      modifiedAt,
+      stats,
+    }));
+  }
+
+  return { directory, getSlugs, getBySlug, getAll, getIndex };
+}
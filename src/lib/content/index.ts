@@ -0,0 +1,17 @@
+export {
+  defineCollection,
+  type Collection,
+  type CollectionConfig,
+  type CollectionEntry,
+  type CollectionIndexEntry,
+} from "./collection";
+export { CONTENT_ROOT } from "./paths";
+export { memoizeContent } from "./cache";
+export {
+  computeStats,
+  countWords,
+  formatReadingTime,
+  type ContentHeading,
+  type ContentStats,
+} from "./stats";
+export { siteToday, isReleased } from "./schedule";
@@ -0,0 +1,4 @@
+import path from "path";
+
+/** Root folder holding every content collection */
+export const CONTENT_ROOT = path.join(process.cwd(), "content");
@@ -0,0 +1,40 @@
+import { siteConfig } from "@/lib/site";
+
+/**
+ * Publication Schedule
+ * 
+ * Frontmatter dates are calendar dates in the site's time zone, so a post
+ * dated 2025-10-24 goes live at midnight in Nairobi regardless of where
+ * the server runs.
+ */
+
+const dateFormatter = new Intl.DateTimeFormat("en-CA", {
+  timeZone: siteConfig.timeZone,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+/**
+ * Current calendar date in the site time zone
+ * 
+ * @param now - Reference instant (defaults to the current time)
+ * @returns Date in YYYY-MM-DD format
+ */
+export function siteToday(now: Date = new Date()): string {
+  const parts = Object.fromEntries(
+    dateFormatter.formatToParts(now).map((part) => [part.type, part.value])
+  );
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+/**
+ * Whether a publication date has been reached
+ * 
+ * @param date - Publication date (YYYY-MM-DD)
+ * @param now - Reference instant (defaults to the current time)
+ */
+export function isReleased(date: string, now: Date = new Date()): boolean {
+  // ISO dates compare correctly as strings
+  return date <= siteToday(now);
+}
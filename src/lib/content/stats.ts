@@ -0,0 +1,86 @@
+/**
+ * Content Heading
+ * 
+ * A markdown heading found in an entry body
+ */
+export interface ContentHeading {
+  /** Heading level (2 for ##, 3 for ###, ...) */
+  depth: number;
+
+  /** Heading text as written in the source */
+  text: string;
+}
+
+/**
+ * Content Stats
+ * 
+ * Values derived from an entry body once, when the entry is indexed
+ */
+export interface ContentStats {
+  /** Whitespace-delimited word count */
+  wordCount: number;
+
+  /** Estimated reading time (e.g. "5 min read") */
+  readingTime: string;
+
+  /** Headings in document order, excluding the page title */
+  headings: ContentHeading[];
+}
+
+/** Average reading speed used for estimates */
+const WORDS_PER_MINUTE = 200;
+
+/**
+ * Count words in an MDX body
+ */
+export function countWords(content: string): number {
+  const trimmed = content.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+/**
+ * Format a reading time estimate for a word count
+ */
+export function formatReadingTime(wordCount: number): string {
+  const minutes = Math.max(1, Math.ceil(wordCount / WORDS_PER_MINUTE));
+  return `${minutes} min read`;
+}
+
+/**
+ * Extract h2-h6 headings, skipping anything inside fenced code blocks
+ */
+export function extractHeadings(content: string): ContentHeading[] {
+  const headings: ContentHeading[] = [];
+  let fence: string | null = null;
+
+  for (const line of content.split("\n")) {
+    const fenceMatch = /^\s*(`{3,}|~{3,})/.exec(line);
+    if (fenceMatch) {
+      const marker = fenceMatch[1][0];
+      if (fence === null) fence = marker;
+      else if (fence === marker) fence = null;
+      continue;
+    }
+    if (fence !== null) continue;
+
+    const headingMatch = /^(#{2,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (headingMatch) {
+      headings.push({ depth: headingMatch[1].length, text: headingMatch[2] });
+    }
+  }
+
+  return headings;
+}
+
+/**
+ * Compute all stats for an entry body
+ */
+export function computeStats(content: string): ContentStats {
+  const wordCount = countWords(content);
+
+  return {
+    wordCount,
+    readingTime: formatReadingTime(wordCount),
+    headings: extractHeadings(content),
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Calendar Dates
+ * 
+ * Frontmatter dates (YYYY-MM-DD) are calendar days, not instants.
+ * `new Date("2025-10-24")` reads one as midnight UTC, which displays as
+ * 23 October anywhere west of Greenwich and can land a post in the wrong
+ * month. These helpers split the string instead, and format at UTC so
+ * the day never moves. Safe to import from client components.
+ */
+
+/**
+ * Calendar Date
+ */
+export interface CalendarDate {
+  year: number;
+
+  /** 1-based month (1 = January) */
+  month: number;
+
+  day: number;
+}
+
+/**
+ * Split a YYYY-MM-DD date into its parts
+ */
+export function parseCalendarDate(date: string): CalendarDate {
+  const [year, month, day] = date.split("-").map(Number);
+  return { year, month, day };
+}
+
+/**
+ * Format a YYYY-MM-DD date for display
+ * 
+ * @param date - Calendar date
+ * @param options - Intl options (defaults to "October 24, 2025")
+ */
+export function formatCalendarDate(
+  date: string,
+  options: Intl.DateTimeFormatOptions = { year: "numeric", month: "long", day: "numeric" }
+): string {
+  const { year, month, day } = parseCalendarDate(date);
+  return new Intl.DateTimeFormat("en-US", { ...options, timeZone: "UTC" }).format(
+    new Date(Date.UTC(year, month - 1, day))
+  );
+}
+
+/**
+ * Name of a month, e.g. "October 2025" or "October"
+ * 
+ * @param month - 1-based month
+ * @param year - Include the year when given
+ */
+export function formatMonth(month: number, year?: number): string {
+  return new Intl.DateTimeFormat("en-US", {
+    month: "long",
+    year: year === undefined ? undefined : "numeric",
+    timeZone: "UTC",
+  }).format(new Date(Date.UTC(year ?? 2000, month - 1, 1)));
+}
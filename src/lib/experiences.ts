@@ -1,79 +1,51 @@
-import fs from "fs";
-import path from "path";
-import matter from "gray-matter";
+import type { ExperienceFrontmatter } from "@/types/experience";
+import { experienceFrontmatterSchema } from "@/lib/schemas";
+import { defineCollection, type CollectionEntry } from "@/lib/content";
 
-const experiencesDirectory = path.join(process.cwd(), "content/experiences");
+export type { ExperienceFrontmatter };
 
-export interface ExperienceFrontmatter {
-  title: string;
-  company: string;
-  location?: string;
-  startDate: string;
-  endDate: string;
-  current: boolean;
-  description: string;
-  achievements: string[];
-  technologies: string[];
-  order?: number;
-}
+export type Experience = CollectionEntry<ExperienceFrontmatter>;
 
-export interface Experience {
-  slug: string;
-  frontmatter: ExperienceFrontmatter;
-  content: string;
-}
+/**
+ * Experience Collection
+ * 
+ * MDX files in content/experiences, sorted by explicit order,
+ * then current roles first
+ */
+export const experiences = defineCollection({
+  directory: "experiences",
+  schema: experienceFrontmatterSchema,
+  sort: (a, b) => {
+    // Sort by order if specified
+    if (a.frontmatter.order !== undefined && b.frontmatter.order !== undefined) {
+      return a.frontmatter.order - b.frontmatter.order;
+    }
+    // Current roles first
+    if (a.frontmatter.current && !b.frontmatter.current) return -1;
+    if (!a.frontmatter.current && b.frontmatter.current) return 1;
+    return 0;
+  },
+});
 
 /**
  * Get all experience slugs
  */
 export function getAllExperienceSlugs(): string[] {
-  if (!fs.existsSync(experiencesDirectory)) {
-    return [];
-  }
-  const fileNames = fs.readdirSync(experiencesDirectory);
-  return fileNames
-    .filter((fileName) => fileName.endsWith(".mdx"))
-    .map((fileName) => fileName.replace(/\.mdx$/, ""));
+  return experiences.getSlugs();
 }
 
 /**
  * Get a single experience by slug
+ *
+ * @throws ContentValidationError if the frontmatter is invalid
  */
 export function getExperienceBySlug(slug: string): Experience | null {
-  try {
-    const fullPath = path.join(experiencesDirectory, `${slug}.mdx`);
-    const fileContents = fs.readFileSync(fullPath, "utf8");
-    const { data, content } = matter(fileContents);
-
-    return {
-      slug,
-      frontmatter: data as ExperienceFrontmatter,
-      content,
-    };
-  } catch (error) {
-    console.error(`Error reading experience ${slug}:`, error);
-    return null;
-  }
+  return experiences.getBySlug(slug);
 }
 
 /**
- * Get all experiences, sorted by date (most recent first)
+ * Get all experiences, sorted by order
  */
 export function getAllExperiences(): Experience[] {
-  const slugs = getAllExperienceSlugs();
-  const experiences = slugs
-    .map((slug) => getExperienceBySlug(slug))
-    .filter((exp): exp is Experience => exp !== null)
-    .sort((a, b) => {
-      // Sort by order if specified
-      if (a.frontmatter.order !== undefined && b.frontmatter.order !== undefined) {
-        return a.frontmatter.order - b.frontmatter.order;
-      }
-      // Current roles first
-      if (a.frontmatter.current && !b.frontmatter.current) return -1;
-      if (!a.frontmatter.current && b.frontmatter.current) return 1;
-      return 0;
-    });
-
-  return experiences;
+  return experiences.getAll();
 }
@@ -0,0 +1,229 @@
+import { Feed } from "feed";
+import { getAllPosts, getAllTags, getAllCategories, getPostsByTag, getPostsByCategory } from "@/lib/mdx";
+import { getPostAuthors } from "@/lib/authors";
+import { renderMarkdownToHtml } from "@/lib/markdown";
+import { siteConfig, absoluteUrl } from "@/lib/site";
+import { getAllVentures, toVenture } from "@/lib/ventures";
+import { postHref, tagHref, categoryHref, authorHref, projectHref, milestoneAnchor, feedPath, type FeedFormat } from "@/lib/routes";
+import type { BlogPost } from "@/types/blog";
+import { statusConfig, type VentureStatus } from "@/types/venture";
+
+/** Response content type of each feed format */
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+/**
+ * Guess an image MIME type from its URL, defaulting to JPEG
+ */
+function imageType(url: string): string {
+  const extension = new URL(url, siteConfig.url).pathname.split(".").pop()?.toLowerCase();
+  switch (extension) {
+    case "png":
+      return "image/png";
+    case "gif":
+      return "image/gif";
+    case "webp":
+      return "image/webp";
+    case "avif":
+      return "image/avif";
+    case "svg":
+      return "image/svg+xml";
+    default:
+      return "image/jpeg";
+  }
+}
+
+interface BuildFeedOptions {
+  /** Feed title */
+  title: string;
+  /** Feed description */
+  description: string;
+  /** Listing page the feed mirrors (also the base path of its feed files) */
+  basePath: string;
+}
+
+/**
+ * Create an empty feed with the site's identity
+ * 
+ * @param updated - Date of the newest item
+ */
+function createFeed({ title, description, basePath }: BuildFeedOptions, updated?: string): Feed {
+  const listingUrl = absoluteUrl(basePath || "/blog");
+
+  return new Feed({
+    id: listingUrl,
+    title,
+    description,
+    link: listingUrl,
+    language: siteConfig.language,
+    favicon: absoluteUrl("/favicon.ico"),
+    copyright: `© ${new Date().getFullYear()} ${siteConfig.author.name}`,
+    updated: updated ? new Date(updated) : undefined,
+    generator: false,
+    feedLinks: {
+      rss: absoluteUrl(feedPath(basePath, "rss")),
+      atom: absoluteUrl(feedPath(basePath, "atom")),
+      json: absoluteUrl(feedPath(basePath, "json")),
+    },
+    author: {
+      name: siteConfig.author.name,
+      link: siteConfig.author.url,
+    },
+  });
+}
+
+/**
+ * Build a feed from published posts
+ * 
+ * Callers pass posts from getAllPosts (or a filter of it), so
+ * unpublished posts can never reach a feed.
+ */
+async function buildFeed(posts: BlogPost[], options: BuildFeedOptions): Promise<Feed> {
+  const feed = createFeed(options, posts[0]?.frontmatter.date);
+
+  for (const post of posts) {
+    const { frontmatter } = post;
+    const url = absoluteUrl(postHref(post.slug));
+    const coverImage = frontmatter.coverImage ? absoluteUrl(frontmatter.coverImage) : undefined;
+
+    feed.addItem({
+      id: url,
+      title: frontmatter.title,
+      link: url,
+      date: new Date(frontmatter.date),
+      published: new Date(frontmatter.date),
+      description: frontmatter.description,
+      content: await renderMarkdownToHtml(post.content),
+      author: getPostAuthors(post).map((author) => ({
+        name: author.frontmatter.name,
+        link: absoluteUrl(authorHref(author.slug)),
+      })),
+      category: [
+        { name: frontmatter.category, domain: absoluteUrl(categoryHref(frontmatter.category)) },
+        ...frontmatter.tags.map((tag) => ({ name: tag, domain: absoluteUrl(tagHref(tag)) })),
+      ],
+      image: coverImage ? { url: coverImage, type: imageType(coverImage), length: 0 } : undefined,
+    });
+  }
+
+  return feed;
+}
+
+/**
+ * Blog Feed
+ * 
+ * All published posts
+ */
+export function getBlogFeed(): Promise<Feed> {
+  return buildFeed(getAllPosts(), {
+    title: `${siteConfig.name} | Blog`,
+    description: "Thoughts on AI, software development, and building products",
+    basePath: "",
+  });
+}
+
+/**
+ * Tag Feed
+ * 
+ * @param slug - Tag slug
+ * @returns Feed of posts with the tag, or null for an unknown tag
+ */
+export async function getTagFeed(slug: string): Promise<Feed | null> {
+  const tag = getAllTags().find((t) => t.slug === slug);
+  if (!tag) return null;
+
+  return buildFeed(getPostsByTag(tag.slug), {
+    title: `${siteConfig.name} | ${tag.name}`,
+    description: `Articles tagged ${tag.name}`,
+    basePath: tagHref(tag.slug),
+  });
+}
+
+/**
+ * Category Feed
+ * 
+ * @param slug - Category slug
+ * @returns Feed of posts in the category, or null for an unknown category
+ */
+export async function getCategoryFeed(slug: string): Promise<Feed | null> {
+  const category = getAllCategories().find((c) => c.slug === slug);
+  if (!category) return null;
+
+  return buildFeed(getPostsByCategory(category.slug), {
+    title: `${siteConfig.name} | ${category.name}`,
+    description: `Articles about ${category.name}`,
+    basePath: categoryHref(category.slug),
+  });
+}
+
+/**
+ * Venture Changelog Feed
+ * 
+ * One item per milestone, newest first, linking to the milestone on
+ * the venture page
+ * 
+ * @param slug - Venture slug
+ * @returns Feed of the venture's milestones, or null for an unknown or unpublished venture
+ */
+export function getVentureFeed(slug: string): Feed | null {
+  const entry = getAllVentures().find((venture) => venture.slug === slug);
+  if (!entry) return null;
+
+  const venture = toVenture(entry);
+  const milestones = [...venture.milestones].reverse();
+  const feed = createFeed(
+    {
+      title: `${siteConfig.name} | ${venture.name} changelog`,
+      description: `Milestones and status changes for ${venture.name}`,
+      basePath: projectHref(venture.slug),
+    },
+    milestones[0]?.date
+  );
+
+  for (const milestone of milestones) {
+    const url = absoluteUrl(`${projectHref(venture.slug)}#${milestoneAnchor(milestone)}`);
+    const { transition } = milestone;
+    const statusChange = transition
+      ? [transition.from, transition.to]
+          .filter((status): status is VentureStatus => status !== undefined)
+          .map((status) => statusConfig[status].label)
+          .join(" → ")
+      : undefined;
+    const summary = [statusChange && `Status: ${statusChange}.`, milestone.description].filter(Boolean).join(" ");
+
+    feed.addItem({
+      id: url,
+      title: `${venture.name}: ${milestone.title}`,
+      link: url,
+      date: new Date(milestone.date),
+      published: new Date(milestone.date),
+      description: summary || undefined,
+      category: transition ? [{ name: statusConfig[transition.to].label }] : undefined,
+    });
+  }
+
+  return feed;
+}
+
+/**
+ * Serialize a feed into a route handler response
+ * 
+ * @param feed - Feed to serialize, or null to respond 404
+ * @param format - Output format
+ */
+export function feedResponse(feed: Feed | null, format: FeedFormat): Response {
+  if (!feed) {
+    return new Response("Feed not found", { status: 404 });
+  }
+
+  const body = format === "rss" ? feed.rss2() : format === "atom" ? feed.atom1() : feed.json1();
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": CONTENT_TYPES[format],
+    },
+  });
+}
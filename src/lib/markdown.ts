@@ -0,0 +1,137 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkMdx from "remark-mdx";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import remarkRehype from "remark-rehype";
+import rehypeStringify from "rehype-stringify";
+import rehypeKatex from "rehype-katex";
+import type { Root as MdastRoot, RootContent as MdastContent, Parents as MdastParents } from "mdast";
+import type { Root as HastRoot, Element } from "hast";
+import { visit } from "unist-util-visit";
+import { absoluteUrl } from "@/lib/site";
+
+/**
+ * MDX-only node types that have no plain HTML equivalent
+ */
+const DROPPED_NODES = new Set(["mdxjsEsm", "mdxFlowExpression", "mdxTextExpression"]);
+const JSX_NODES = new Set(["mdxJsxFlowElement", "mdxJsxTextElement"]);
+
+/**
+ * Strip MDX syntax from the tree
+ * 
+ * Imports, exports and expressions are removed; JSX elements are replaced
+ * by their children so prose inside custom components is kept.
+ */
+function remarkStripMdx() {
+  function strip(node: MdastParents) {
+    const children: MdastContent[] = [];
+
+    for (const child of node.children as MdastContent[]) {
+      if (DROPPED_NODES.has(child.type)) continue;
+
+      if ("children" in child) {
+        strip(child);
+      }
+
+      if (JSX_NODES.has(child.type) && "children" in child) {
+        children.push(...(child.children as MdastContent[]));
+      } else {
+        children.push(child);
+      }
+    }
+
+    node.children = children as typeof node.children;
+  }
+
+  return (tree: MdastRoot) => strip(tree);
+}
+
+/**
+ * Rewrite root-relative links and images to absolute URLs
+ * 
+ * Feed readers resolve relative URLs inconsistently.
+ */
+function rehypeAbsoluteUrls() {
+  return (tree: HastRoot) => {
+    visit(tree, "element", (node: Element) => {
+      for (const attribute of ["href", "src"]) {
+        const value = node.properties[attribute];
+        if (typeof value === "string" && value.startsWith("/") && !value.startsWith("//")) {
+          node.properties[attribute] = absoluteUrl(value);
+        }
+      }
+    });
+  };
+}
+
+// Math is parsed everywhere so braces in $...$ are not read as MDX
+// expressions. Feeds get MathML only: readers don't load the KaTeX CSS.
+const processor = unified()
+  .use(remarkParse)
+  .use(remarkMdx)
+  .use(remarkGfm)
+  .use(remarkMath)
+  .use(remarkStripMdx)
+  .use(remarkRehype)
+  .use(rehypeKatex, { output: "mathml" })
+  .use(rehypeAbsoluteUrls)
+  .use(rehypeStringify);
+
+const textProcessor = unified()
+  .use(remarkParse)
+  .use(remarkMdx)
+  .use(remarkGfm)
+  .use(remarkMath)
+  .use(remarkStripMdx);
+
+/** Nodes whose children flow inline and are joined without separators */
+const INLINE_PARENTS = new Set(["paragraph", "heading", "emphasis", "strong", "delete", "link", "linkReference", "tableCell"]);
+
+/**
+ * Collect readable text from an mdast node, skipping code blocks
+ */
+function toPlainText(node: MdastRoot | MdastContent): string {
+  if (node.type === "code" || node.type === "html") return "";
+  if (node.type === "text" || node.type === "inlineCode") return node.value;
+  if (!("children" in node)) return "";
+
+  const separator = INLINE_PARENTS.has(node.type) ? "" : " ";
+  return (node.children as MdastContent[]).map(toPlainText).filter(Boolean).join(separator);
+}
+
+const htmlCache = new Map<string, Promise<string>>();
+
+/**
+ * Render an MDX body to standalone HTML
+ * 
+ * Used where React rendering is unavailable (feeds). Results are cached
+ * by source, so each body is rendered once per process.
+ * 
+ * @param content - Raw MDX content
+ * @returns HTML string with absolute URLs
+ */
+export function renderMarkdownToHtml(content: string): Promise<string> {
+  let html = htmlCache.get(content);
+
+  if (!html) {
+    html = processor.process(content).then((file) => String(file));
+    htmlCache.set(content, html);
+  }
+
+  return html;
+}
+
+/**
+ * Extract readable prose from an MDX body
+ * 
+ * Markdown syntax, MDX expressions and fenced code are removed, leaving
+ * whitespace-normalised text suitable for search indexing and excerpts.
+ * 
+ * @param content - Raw MDX content
+ * @returns Plain text
+ */
+export function markdownToPlainText(content: string): string {
+  const tree = textProcessor.runSync(textProcessor.parse(content)) as MdastRoot;
+  return toPlainText(tree).replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,205 @@
+import { unified, type PluggableList } from "unified";
+import remarkParse from "remark-parse";
+import remarkMdx from "remark-mdx";
+import remarkRehype, { type Options as RemarkRehypeOptions } from "remark-rehype";
+import rehypeSlug from "rehype-slug";
+import rehypeAutolinkHeadings from "rehype-autolink-headings";
+import rehypeHighlight from "rehype-highlight";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import { toString } from "hast-util-to-string";
+import type { Element } from "hast";
+import { visit, SKIP } from "unist-util-visit";
+import {
+  rehypeCodeMeta,
+  rehypeCodeLines,
+  rehypeFootnotePreviews,
+  remarkMermaid,
+} from "@/lib/mdx-plugins";
+
+/**
+ * MDX Collection
+ *
+ * Content types rendered through the shared pipeline. Each may override
+ * the base plugins (see pipelineOverrides).
+ */
+export type MdxCollection = "blog" | "ventures" | "experiences" | "authors";
+
+/**
+ * MDX Pipeline
+ *
+ * Plugin lists handed to the MDX compiler
+ */
+export interface MdxPipeline {
+  remarkPlugins: PluggableList;
+  rehypePlugins: PluggableList;
+}
+
+/**
+ * Body plugins: math typesetting, footnote previews, then code blocks
+ * (fence meta, highlighting, line markup). KaTeX runs first so $$ blocks
+ * are typeset rather than treated as code.
+ */
+const bodyPlugins: PluggableList = [
+  rehypeKatex, // LaTeX to static HTML
+  rehypeFootnotePreviews, // Show footnote text on hover of its reference
+  rehypeCodeMeta, // Parse title, {1,3-5}, showLineNumbers and diff from the fence
+  rehypeHighlight, // Syntax highlighting for code blocks
+  rehypeCodeLines, // Wrap each line for highlights, diffs and line numbers
+];
+
+/**
+ * Base Pipeline
+ *
+ * Applied to every MDX body unless a collection overrides it.
+ * Math, diagrams and highlighting run here, at render time on the
+ * server, so no typesetter, diagram library or highlighter is shipped
+ * to the browser.
+ */
+const basePipeline: MdxPipeline = {
+  remarkPlugins: [
+    remarkGfm, // Tables, footnotes, strikethrough, task lists and autolinks
+    remarkMath, // $inline$ and $$block$$ math
+    remarkMermaid, // ```mermaid fences rendered to SVG in <Mermaid />
+  ],
+  rehypePlugins: [
+    ...bodyPlugins,
+    rehypeSlug, // Add IDs to headings
+    // Add anchor links to headings (the class keeps prose link styling off them)
+    [rehypeAutolinkHeadings, { behavior: "wrap", properties: { className: ["heading-anchor"] } }],
+  ],
+};
+
+/**
+ * Per-collection plugin overrides
+ *
+ * Experience and author bodies are rendered several to a page, so they
+ * skip heading ids, which would otherwise collide between entries.
+ */
+const pipelineOverrides: Partial<Record<MdxCollection, Partial<MdxPipeline>>> = {
+  experiences: { rehypePlugins: bodyPlugins },
+  authors: { rehypePlugins: bodyPlugins },
+};
+
+/**
+ * Get the plugin pipeline for a collection
+ *
+ * @param collection - Content type being rendered
+ */
+export function getMdxPipeline(collection: MdxCollection): MdxPipeline {
+  return { ...basePipeline, ...pipelineOverrides[collection] };
+}
+
+/**
+ * MDX node types passed through remark-rehype untouched, as the MDX
+ * compiler does, so heading text (and therefore slugs) is identical
+ */
+const MDX_PASS_THROUGH: RemarkRehypeOptions["passThrough"] = [
+  "mdxFlowExpression",
+  "mdxJsxFlowElement",
+  "mdxJsxTextElement",
+  "mdxTextExpression",
+  "mdxjsEsm",
+];
+
+/**
+ * Processor running a collection's pipeline up to the HTML tree
+ */
+function createTocProcessor(collection: MdxCollection) {
+  const { remarkPlugins, rehypePlugins } = getMdxPipeline(collection);
+
+  return unified()
+    .use(remarkParse)
+    .use(remarkMdx)
+    .use(remarkPlugins)
+    .use(remarkRehype, { passThrough: MDX_PASS_THROUGH })
+    .use(rehypePlugins);
+}
+
+const tocProcessors = new Map<MdxCollection, ReturnType<typeof createTocProcessor>>();
+
+/**
+ * Cached TOC processor for a collection
+ */
+function getTocProcessor(collection: MdxCollection) {
+  let processor = tocProcessors.get(collection);
+
+  if (!processor) {
+    processor = createTocProcessor(collection);
+    tocProcessors.set(collection, processor);
+  }
+
+  return processor;
+}
+
+/**
+ * Table of Contents Item
+ */
+export interface TocItem {
+  /** Heading id, as generated by rehype-slug */
+  id: string;
+
+  /** Heading text */
+  title: string;
+
+  /** Heading level (2 for h2, ...) */
+  level: number;
+
+  /** Subheadings nested under this heading */
+  children: TocItem[];
+}
+
+/**
+ * Extract a table of contents from an MDX body
+ *
+ * Runs the collection's pipeline, the same one MdxContent renders with, so ids always match
+ * the anchors on the page, headings inside code blocks are ignored and
+ * duplicate headings get rehype-slug's "-1", "-2" suffixes. It is async
+ * because the pipeline is (remarkMermaid renders diagrams); rendered
+ * diagrams are cached, so the page doesn't render them a second time.
+ *
+ * A heading is nested under the closest preceding heading of a lower
+ * level; skipped levels (an h4 straight after an h2) nest one step deep.
+ *
+ * @param content - Raw MDX content
+ * @param options - Collection pipeline to run and heading levels to include (defaults to h2 to h4)
+ * @returns Top-level headings with their subheadings
+ */
+export async function extractTableOfContents(
+  content: string,
+  {
+    collection = "blog",
+    minLevel = 2,
+    maxLevel = 4,
+  }: { collection?: MdxCollection; minLevel?: number; maxLevel?: number } = {}
+): Promise<TocItem[]> {
+  const processor = getTocProcessor(collection);
+  const tree = await processor.run(processor.parse(content));
+  const toc: TocItem[] = [];
+  const stack: TocItem[] = [];
+
+  visit(tree, "element", (node: Element) => {
+    // The footnotes section carries a visually hidden "Footnotes" heading
+    if (node.tagName === "section" && node.properties.dataFootnotes !== undefined) return SKIP;
+
+    const match = /^h([1-6])$/.exec(node.tagName);
+    const level = match ? Number(match[1]) : 0;
+    if (level < minLevel || level > maxLevel) return;
+
+    const id = node.properties.id;
+    if (typeof id !== "string") return;
+
+    const item: TocItem = { id, title: toString(node).trim(), level, children: [] };
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1];
+    (parent ? parent.children : toc).push(item);
+    stack.push(item);
+  });
+
+  return toc;
+}
@@ -0,0 +1,225 @@
+import type { Root, Element, ElementContent, Text } from "hast";
+import { visit } from "unist-util-visit";
+
+/**
+ * Code Block Options
+ *
+ * Parsed from the fence meta string, e.g.
+ * ```ts title="route.ts" {3-5} showLineNumbers diff
+ */
+export interface CodeBlockMeta {
+  /** File name or caption shown in the header */
+  title?: string;
+
+  /** 1-based line numbers to highlight */
+  highlightLines: Set<number>;
+
+  /** Whether to render line numbers */
+  showLineNumbers: boolean;
+
+  /** Number of the first line (showLineNumbers{10}) */
+  startLine: number;
+
+  /** Whether leading +/- marks added and removed lines */
+  diff: boolean;
+}
+
+declare module "hast" {
+  interface ElementData {
+    /** Fence options, set by rehypeCodeMeta and read by rehypeCodeLines */
+    codeBlock?: CodeBlockMeta & { diffLines: Map<number, "add" | "remove"> };
+  }
+}
+
+/**
+ * Expand "1,3-5" into {1, 3, 4, 5}
+ */
+function parseLineRanges(ranges: string): Set<number> {
+  const lines = new Set<number>();
+
+  for (const range of ranges.split(",")) {
+    const [start, end = start] = range.trim().split("-").map(Number);
+    if (!Number.isInteger(start) || !Number.isInteger(end)) continue;
+    for (let line = start; line <= end; line++) lines.add(line);
+  }
+
+  return lines;
+}
+
+/**
+ * Parse a fence meta string
+ *
+ * @param meta - Text after the language on the opening fence
+ */
+export function parseCodeMeta(meta: string | null | undefined): CodeBlockMeta {
+  let rest = meta ?? "";
+
+  const title = /\btitle=(?:"([^"]*)"|'([^']*)'|(\S+))/.exec(rest);
+  if (title) rest = rest.replace(title[0], "");
+
+  const lineNumbers = /\bshowLineNumbers(?:\{(\d+)\})?/.exec(rest);
+  if (lineNumbers) rest = rest.replace(lineNumbers[0], "");
+
+  const ranges = /\{([\d,\s-]+)\}/.exec(rest);
+
+  return {
+    title: title ? (title[1] ?? title[2] ?? title[3]) : undefined,
+    highlightLines: ranges ? parseLineRanges(ranges[1]) : new Set(),
+    showLineNumbers: lineNumbers !== null,
+    startLine: lineNumbers?.[1] ? Number(lineNumbers[1]) : 1,
+    diff: /(^|\s)diff(\s|$)/.test(rest),
+  };
+}
+
+/**
+ * Language of a code element, from its "language-*" class
+ */
+function getLanguage(code: Element): string | undefined {
+  const classes = code.properties.className;
+  if (!Array.isArray(classes)) return undefined;
+
+  const language = classes.find((name) => String(name).startsWith("language-"));
+  return language ? String(language).slice("language-".length) : undefined;
+}
+
+/**
+ * Find fenced code blocks (pre > code)
+ */
+function visitCodeBlocks(tree: Root, visitor: (pre: Element, code: Element) => void) {
+  visit(tree, "element", (node: Element) => {
+    if (node.tagName !== "pre") return;
+
+    const code = node.children.find(
+      (child): child is Element => child.type === "element" && child.tagName === "code"
+    );
+    if (code) visitor(node, code);
+  });
+}
+
+/**
+ * Read fence meta before highlighting
+ *
+ * Stores the parsed options on the code element, exposes the title and
+ * language as data attributes on the pre, and strips diff markers so the
+ * highlighter sees valid source.
+ */
+export function rehypeCodeMeta() {
+  return (tree: Root) => {
+    visitCodeBlocks(tree, (pre, code) => {
+      const language = getLanguage(code);
+      const meta = parseCodeMeta(code.data?.meta);
+      const diff = meta.diff || language === "diff";
+      const diffLines = new Map<number, "add" | "remove">();
+
+      if (diff) {
+        const text = code.children.map((child) => (child.type === "text" ? child.value : "")).join("");
+        const lines = text.split("\n").map((line, index) => {
+          const marker = line.charAt(0);
+          if (marker === "+" || marker === "-") {
+            diffLines.set(index + 1, marker === "+" ? "add" : "remove");
+            return line.slice(1);
+          }
+          return line;
+        });
+        code.children = [{ type: "text", value: lines.join("\n") }];
+      }
+
+      code.data = { ...code.data, codeBlock: { ...meta, diff, diffLines } };
+
+      pre.properties.dataLanguage = language;
+      pre.properties.dataTitle = meta.title;
+      pre.properties.dataDiff = diff ? "" : undefined;
+    });
+  };
+}
+
+/**
+ * Split highlighted children into lines
+ *
+ * Highlighter spans can cross line breaks (multi-line strings and
+ * comments), so each text segment is re-wrapped in copies of the spans
+ * around it.
+ */
+function splitLines(children: ElementContent[]): ElementContent[][] {
+  const lines: ElementContent[][] = [[]];
+
+  function wrap(node: ElementContent, ancestors: Element[]): ElementContent {
+    return ancestors.reduceRight<ElementContent>(
+      (child, ancestor) => ({ ...ancestor, children: [child] }),
+      node
+    );
+  }
+
+  function walk(nodes: ElementContent[], ancestors: Element[]) {
+    for (const node of nodes) {
+      if (node.type === "text") {
+        node.value.split("\n").forEach((segment, index) => {
+          if (index > 0) lines.push([]);
+          if (segment) {
+            lines[lines.length - 1].push(wrap({ type: "text", value: segment } as Text, ancestors));
+          }
+        });
+      } else if (node.type === "element") {
+        walk(node.children, [...ancestors, node]);
+      }
+    }
+  }
+
+  walk(children, []);
+
+  // Fences end with a newline, which would add an empty last line
+  if (lines.length > 1 && lines[lines.length - 1].length === 0) lines.pop();
+
+  return lines;
+}
+
+/**
+ * Wrap highlighted code in per-line spans
+ *
+ * Runs after the highlighter. Each line becomes
+ * <span data-line="n" data-highlighted data-diff="add|remove">, which the
+ * code block styles in globals.css turn into highlights, diff gutters and
+ * line numbers. The code element is tagged data-code-block so the MDX
+ * registry can tell it from inline code.
+ */
+export function rehypeCodeLines() {
+  return (tree: Root) => {
+    visitCodeBlocks(tree, (pre, code) => {
+      const meta = code.data?.codeBlock ?? { ...parseCodeMeta(null), diffLines: new Map() };
+      const lines = splitLines(code.children);
+
+      code.children = lines.map((children, index): Element => {
+        const line = index + 1;
+        const isLast = index === lines.length - 1;
+
+        const diff = meta.diffLines.get(line);
+
+        // Gutter showing +/- on diff blocks (excluded from copied code)
+        const marker: Element[] = meta.diff
+          ? [{
+              type: "element",
+              tagName: "span",
+              properties: { className: ["code-diff-marker"], ariaHidden: "true" },
+              children: [{ type: "text", value: diff === "add" ? "+" : diff === "remove" ? "-" : " " }],
+            }]
+          : [];
+
+        return {
+          type: "element",
+          tagName: "span",
+          properties: {
+            className: ["code-line"],
+            dataLine: meta.startLine + index,
+            dataHighlighted: meta.highlightLines.has(line) ? "" : undefined,
+            dataDiff: diff,
+          },
+          // Keep the newline inside the line so copied text stays intact
+          children: [...marker, ...children, ...(isLast ? [] : [{ type: "text" as const, value: "\n" }])],
+        };
+      });
+
+      code.properties.dataCodeBlock = "";
+      pre.properties.dataLineNumbers = meta.showLineNumbers ? "" : undefined;
+    });
+  };
+}
@@ -0,0 +1,63 @@
+import type { Root, Element, ElementContent } from "hast";
+import { toString } from "hast-util-to-string";
+import { visit } from "unist-util-visit";
+
+/**
+ * Footnote text without its "↩" back-links
+ */
+function getFootnoteText(item: Element): string {
+  function strip(nodes: ElementContent[]): ElementContent[] {
+    return nodes
+      .filter((node) => node.type !== "element" || node.properties.dataFootnoteBackref === undefined)
+      .map((node) => (node.type === "element" ? { ...node, children: strip(node.children) } : node));
+  }
+
+  return toString({ ...item, children: strip(item.children) }).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Add hover previews to footnote references
+ *
+ * remark-gfm renders a reference as <sup><a data-footnote-ref></sup> and
+ * the notes in a <section data-footnotes> at the end. This copies each
+ * note's text next to its reference in a span.footnote-preview, which
+ * the GFM styles in globals.css reveal on hover and keyboard focus. The
+ * preview is aria-hidden: the reference link already points screen
+ * readers at the note itself.
+ */
+export function rehypeFootnotePreviews() {
+  return (tree: Root) => {
+    const notes = new Map<string, string>();
+
+    visit(tree, "element", (node: Element) => {
+      if (node.tagName !== "section" || node.properties.dataFootnotes === undefined) return;
+
+      visit(node, "element", (item: Element) => {
+        if (item.tagName === "li" && typeof item.properties.id === "string") {
+          notes.set(item.properties.id, getFootnoteText(item));
+        }
+      });
+    });
+
+    if (notes.size === 0) return;
+
+    visit(tree, "element", (node: Element) => {
+      if (node.tagName !== "sup") return;
+
+      const reference = node.children.find(
+        (child): child is Element => child.type === "element" && child.properties.dataFootnoteRef !== undefined
+      );
+      const href = reference?.properties.href;
+      const text = typeof href === "string" ? notes.get(href.replace(/^#/, "")) : undefined;
+      if (!text) return;
+
+      node.properties.className = ["footnote-ref"];
+      node.children.push({
+        type: "element",
+        tagName: "span",
+        properties: { className: ["footnote-preview"], ariaHidden: "true" },
+        children: [{ type: "text", value: text }],
+      });
+    });
+  };
+}
@@ -0,0 +1,3 @@
+export { rehypeCodeMeta, rehypeCodeLines, parseCodeMeta, type CodeBlockMeta } from "./code-blocks";
+export { remarkMermaid } from "./mermaid";
+export { rehypeFootnotePreviews } from "./footnotes";
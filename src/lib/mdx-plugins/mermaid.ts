@@ -0,0 +1,47 @@
+import type { Code, Root } from "mdast";
+import type { MdxJsxAttribute, MdxJsxFlowElement } from "mdast-util-mdx-jsx";
+import { visit } from "unist-util-visit";
+import { renderMermaid } from "@/lib/mermaid";
+
+/**
+ * Turn ```mermaid fences into <Mermaid /> elements with rendered SVG
+ *
+ * Runs before remark-rehype, so diagrams never reach the code block
+ * plugins. Each diagram is rendered here, on the server, in the light
+ * and dark themes; the Mermaid component from the registry shows the
+ * one matching the page. A diagram that fails to parse keeps only its
+ * source, which the component shows instead.
+ */
+export function remarkMermaid() {
+  return async (tree: Root) => {
+    const fences: Code[] = [];
+
+    visit(tree, "code", (node) => {
+      if (node.lang === "mermaid") fences.push(node);
+    });
+
+    const diagrams = await Promise.all(fences.map((fence) => renderMermaid(fence.value)));
+
+    visit(tree, "code", (node, index, parent) => {
+      const position = fences.indexOf(node);
+      if (position === -1 || !parent || index === undefined) return;
+
+      const diagram = diagrams[position];
+      const attribute = (name: string, value: string): MdxJsxAttribute => ({ type: "mdxJsxAttribute", name, value });
+
+      const element: MdxJsxFlowElement = {
+        type: "mdxJsxFlowElement",
+        name: "Mermaid",
+        attributes: [
+          attribute("chart", node.value),
+          ...(diagram
+            ? [attribute("light", diagram.light), attribute("dark", diagram.dark), attribute("label", diagram.label)]
+            : []),
+        ],
+        children: [],
+      };
+
+      parent.children.splice(index, 1, element);
+    });
+  };
+}
@@ -1,105 +1,356 @@
-import fs from "fs";
-import path from "path";
-import matter from "gray-matter";
-import type { BlogPost, BlogFrontmatter } from "@/types/blog";
+import {
+  postOrders,
+  type AdjacentPost,
+  type ArchiveMonth,
+  type ArchiveYear,
+  type BlogPost,
+  type PostOrder,
+  type PostSeries,
+  type TaxonomyTerm,
+} from "@/types/blog";
+import { blogFrontmatterSchema, ContentValidationError } from "@/lib/schemas";
+import { defineCollection, countWords, formatReadingTime, isReleased, memoizeContent } from "@/lib/content";
+import { slugify } from "@/lib/utils";
+import { postSlugConflict } from "@/lib/routes";
+import { parseCalendarDate } from "@/lib/dates";
 
-// Blog posts directory
-const POSTS_PATH = path.join(process.cwd(), "content/blog");
+/**
+ * Blog Post Collection
+ * 
+ * MDX files in content/blog, newest first, hiding unpublished and
+ * scheduled posts
+ */
+export const posts = defineCollection({
+  directory: "blog",
+  schema: blogFrontmatterSchema,
+  filter: (post) => isPostPublic(post),
+  // A post whose URL a listing route owns would be silently unreachable
+  checkSlug: postSlugConflict,
+  // ISO dates compare correctly as strings, with no time zone involved
+  sort: (a, b) => b.frontmatter.date.localeCompare(a.frontmatter.date),
+});
+
+/**
+ * Whether a post is visible outside draft preview
+ * 
+ * Posts dated in the future stay hidden until their date arrives in the
+ * site time zone (pages revalidate, see app/layout.tsx).
+ * 
+ * @param post - Blog post
+ * @param now - Reference instant (defaults to the current time)
+ */
+export function isPostPublic(post: BlogPost, now?: Date): boolean {
+  return post.frontmatter.published && isReleased(post.frontmatter.date, now);
+}
 
 /**
  * Get all blog post slugs
  * 
- * Reads the blog directory and returns all MDX file slugs
+ * Includes unpublished and scheduled posts; use getAllPosts for public pages
  */
 export function getAllPostSlugs(): string[] {
-  // Create directory if it doesn't exist
-  if (!fs.existsSync(POSTS_PATH)) {
-    fs.mkdirSync(POSTS_PATH, { recursive: true });
-    return [];
-  }
-
-  const files = fs.readdirSync(POSTS_PATH);
-  
-  return files
-    .filter((file) => file.endsWith(".mdx"))
-    .map((file) => file.replace(/\.mdx$/, ""));
+  return posts.getSlugs();
 }
 
 /**
  * Get blog post by slug
  * 
- * Reads MDX file and parses frontmatter
- * 
  * @param slug - Post slug (filename without extension)
  * @returns Blog post with frontmatter and content
+ * @throws ContentValidationError if the frontmatter is invalid
  */
 export function getPostBySlug(slug: string): BlogPost | null {
-  try {
-    const fullPath = path.join(POSTS_PATH, `${slug}.mdx`);
-    const fileContents = fs.readFileSync(fullPath, "utf8");
-    
-    // Parse frontmatter using gray-matter
-    const { data, content } = matter(fileContents);
-    
-    return {
-      slug,
-      frontmatter: data as BlogFrontmatter,
-      content,
-    };
-  } catch (error) {
-    console.error(`Error reading post ${slug}:`, error);
-    return null;
-  }
+  return posts.getBySlug(slug);
 }
 
 /**
  * Get all blog posts
  * 
  * Returns all posts sorted by date (newest first)
- * Optionally filters by published status
+ * Optionally includes drafts and scheduled posts
  * 
- * @param includeUnpublished - Whether to include unpublished posts
+ * @param includeUnpublished - Whether to include unpublished and scheduled posts
  * @returns Array of blog posts
  */
 export function getAllPosts(includeUnpublished = false): BlogPost[] {
-  const slugs = getAllPostSlugs();
-  
-  const posts = slugs
-    .map((slug) => getPostBySlug(slug))
-    .filter((post): post is BlogPost => post !== null)
-    .filter((post) => includeUnpublished || post.frontmatter.published !== false)
-    .sort((a, b) => {
-      // Sort by date descending (newest first)
-      return new Date(b.frontmatter.date).getTime() - new Date(a.frontmatter.date).getTime();
-    });
-  
-  return posts;
+  return posts.getAll({ includeFiltered: includeUnpublished });
 }
 
 /**
  * Get posts by category
  * 
- * @param category - Category to filter by
+ * @param category - Category name or slug to filter by
  * @returns Array of posts in the category
  */
 export function getPostsByCategory(category: string): BlogPost[] {
+  const categorySlug = slugify(category);
   return getAllPosts().filter(
-    (post) => post.frontmatter.category.toLowerCase() === category.toLowerCase()
+    (post) => slugify(post.frontmatter.category) === categorySlug
   );
 }
 
 /**
  * Get posts by tag
  * 
- * @param tag - Tag to filter by
+ * @param tag - Tag name or slug to filter by
  * @returns Array of posts with the tag
  */
 export function getPostsByTag(tag: string): BlogPost[] {
+  const tagSlug = slugify(tag);
   return getAllPosts().filter((post) =>
-    post.frontmatter.tags.some((t) => t.toLowerCase() === tag.toLowerCase())
+    post.frontmatter.tags.some((t) => slugify(t) === tagSlug)
   );
 }
 
+/**
+ * Reading time of a post in minutes
+ * 
+ * Uses the frontmatter override when it states a number of minutes
+ */
+function getReadingMinutes(post: BlogPost): number {
+  const override = parseInt(post.frontmatter.readingTime ?? "", 10);
+  return Number.isNaN(override) ? parseInt(post.stats.readingTime, 10) : override;
+}
+
+const postComparators: Record<PostOrder, (a: BlogPost, b: BlogPost) => number> = {
+  newest: (a, b) => b.frontmatter.date.localeCompare(a.frontmatter.date),
+  oldest: (a, b) => a.frontmatter.date.localeCompare(b.frontmatter.date),
+  longest: (a, b) =>
+    getReadingMinutes(b) - getReadingMinutes(a) ||
+    b.stats.wordCount - a.stats.wordCount ||
+    b.frontmatter.date.localeCompare(a.frontmatter.date),
+};
+
+/**
+ * Whether a URL segment names a post ordering
+ */
+export function isPostOrder(value: string): value is PostOrder {
+  return (postOrders as readonly string[]).includes(value);
+}
+
+/**
+ * Sort posts for a listing
+ * 
+ * @param posts - Posts to sort (not modified)
+ * @param order - Newest first, oldest first, or longest read first
+ * @returns Sorted copy
+ */
+export function sortPosts(posts: BlogPost[], order: PostOrder): BlogPost[] {
+  return [...posts].sort(postComparators[order]);
+}
+
+/**
+ * Group published posts into taxonomy terms
+ * 
+ * Terms whose names differ only in case or punctuation ("AI/ML", "ai-ml")
+ * share a slug and are merged, keeping the spelling from the newest post.
+ */
+function collectTerms(getNames: (post: BlogPost) => string[]): TaxonomyTerm[] {
+  const terms = new Map<string, TaxonomyTerm>();
+
+  for (const post of getAllPosts()) {
+    // Count each term once per post
+    const slugs = new Set<string>();
+
+    for (const name of getNames(post)) {
+      const slug = slugify(name);
+      if (!slug || slugs.has(slug)) continue;
+      slugs.add(slug);
+
+      const term = terms.get(slug);
+      if (term) {
+        term.count++;
+      } else {
+        terms.set(slug, { name, slug, count: 1 });
+      }
+    }
+  }
+
+  return [...terms.values()].sort(
+    (a, b) => b.count - a.count || a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Get all tags
+ * 
+ * @returns Tags used by published posts, most used first
+ */
+export function getAllTags(): TaxonomyTerm[] {
+  return collectTerms((post) => post.frontmatter.tags);
+}
+
+/**
+ * Get all categories
+ * 
+ * @returns Categories used by published posts, most used first
+ */
+export function getAllCategories(): TaxonomyTerm[] {
+  return collectTerms((post) => [post.frontmatter.category]);
+}
+
+/**
+ * Group published posts into series
+ * 
+ * Throws when two posts claim the same part of a series, since the
+ * navigator and previous/next links would be ambiguous.
+ */
+const loadSeries = memoizeContent((): PostSeries[] => {
+  const series = new Map<string, PostSeries>();
+
+  for (const post of getAllPosts()) {
+    const membership = post.frontmatter.series;
+    if (!membership) continue;
+
+    const slug = slugify(membership.name);
+    const entry = series.get(slug) ?? { name: membership.name, slug, posts: [] };
+
+    const clash = entry.posts.find((p) => p.frontmatter.series?.part === membership.part);
+    if (clash) {
+      throw new ContentValidationError(`content/blog/${post.slug}.mdx`, [
+        `series.part: part ${membership.part} of "${membership.name}" is already used by ${clash.slug}.mdx`,
+      ]);
+    }
+
+    entry.posts.push(post);
+    series.set(slug, entry);
+  }
+
+  for (const entry of series.values()) {
+    entry.posts.sort((a, b) => a.frontmatter.series!.part - b.frontmatter.series!.part);
+  }
+
+  return [...series.values()].sort((a, b) => a.name.localeCompare(b.name));
+});
+
+/**
+ * Get all series
+ * 
+ * @returns Series with their published parts in order
+ */
+export function getAllSeries(): PostSeries[] {
+  return loadSeries();
+}
+
+/**
+ * Get series by slug
+ * 
+ * @param slug - Series name or slug
+ * @returns Series, or null when no published post belongs to it
+ */
+export function getSeriesBySlug(slug: string): PostSeries | null {
+  const seriesSlug = slugify(slug);
+  return getAllSeries().find((series) => series.slug === seriesSlug) ?? null;
+}
+
+/**
+ * Group published posts by year and month
+ * 
+ * Uses the calendar date as written in frontmatter, so a post dated
+ * 2025-10-01 is always an October post whatever the server's time zone.
+ */
+const loadArchive = memoizeContent((): ArchiveYear[] => {
+  const years = new Map<number, ArchiveYear>();
+
+  // getAllPosts is newest first, so years and months come out in order
+  for (const post of getAllPosts()) {
+    const { year, month } = parseCalendarDate(post.frontmatter.date);
+
+    let archiveYear = years.get(year);
+    if (!archiveYear) {
+      archiveYear = { year, months: [], count: 0 };
+      years.set(year, archiveYear);
+    }
+
+    let archiveMonth = archiveYear.months.find((m) => m.month === month);
+    if (!archiveMonth) {
+      archiveMonth = { year, month, posts: [] };
+      archiveYear.months.push(archiveMonth);
+    }
+
+    archiveMonth.posts.push(post);
+    archiveYear.count++;
+  }
+
+  return [...years.values()];
+});
+
+/**
+ * Get the date archive
+ * 
+ * @returns Years with posts, newest first, each with its months
+ */
+export function getPostArchive(): ArchiveYear[] {
+  return loadArchive();
+}
+
+/**
+ * Get one year of the archive
+ * 
+ * @param year - Calendar year
+ * @returns The year, or null when no published post is dated in it
+ */
+export function getArchiveYear(year: number): ArchiveYear | null {
+  return getPostArchive().find((entry) => entry.year === year) ?? null;
+}
+
+/**
+ * Get one month of the archive
+ * 
+ * @param year - Calendar year
+ * @param month - 1-based month
+ * @returns The month, or null when no published post is dated in it
+ */
+export function getArchiveMonth(year: number, month: number): ArchiveMonth | null {
+  return getArchiveYear(year)?.months.find((entry) => entry.month === month) ?? null;
+}
+
+/**
+ * Get Previous and Next Posts
+ * 
+ * Posts in a series link to their neighbouring parts first; the
+ * chronologically adjacent post fills in where the series ends.
+ * 
+ * @param currentSlug - Slug of the post being viewed
+ * @returns Older/earlier-part and newer/later-part neighbours
+ */
+export function getAdjacentPosts(currentSlug: string): {
+  previous: AdjacentPost | null;
+  next: AdjacentPost | null;
+} {
+  const allPosts = getAllPosts();
+  const currentIndex = allPosts.findIndex((post) => post.slug === currentSlug);
+
+  // Drafts viewed directly have no neighbours
+  if (currentIndex === -1) {
+    return { previous: null, next: null };
+  }
+
+  const current = allPosts[currentIndex];
+  const olderPost = currentIndex < allPosts.length - 1 ? allPosts[currentIndex + 1] : null;
+  const newerPost = currentIndex > 0 ? allPosts[currentIndex - 1] : null;
+
+  const series = current.frontmatter.series ? getSeriesBySlug(current.frontmatter.series.name) : null;
+  const position = series ? series.posts.findIndex((post) => post.slug === currentSlug) : -1;
+
+  const seriesNeighbour = (offset: number): AdjacentPost | null => {
+    const post = series?.posts[position + offset];
+    return post ? { post, seriesPart: post.frontmatter.series!.part } : null;
+  };
+
+  const previousPart = seriesNeighbour(-1);
+  const nextPart = seriesNeighbour(1);
+
+  // Never show the same post on both sides
+  const fallback = (post: BlogPost | null, other: AdjacentPost | null): AdjacentPost | null =>
+    post && post.slug !== other?.post.slug ? { post } : null;
+
+  return {
+    previous: previousPart ?? fallback(olderPost, nextPart),
+    next: nextPart ?? fallback(newerPost, previousPart),
+  };
+}
+
 /**
  * Calculate reading time
  * 
@@ -110,9 +361,5 @@ export function getPostsByTag(tag: string): BlogPost[] {
  * @returns Reading time string (e.g., "5 min read")
  */
 export function calculateReadingTime(content: string): string {
-  const wordsPerMinute = 200;
-  const wordCount = content.split(/\s+/).length;
-  const minutes = Math.ceil(wordCount / wordsPerMinute);
-  
-  return `${minutes} min read`;
+  return formatReadingTime(countWords(content));
 }
@@ -0,0 +1,350 @@
+import { readFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import path from "node:path";
+import vm from "node:vm";
+import { JSDOM } from "jsdom";
+import type { Mermaid } from "mermaid";
+
+/**
+ * Mermaid Rendering
+ *
+ * Renders diagrams to SVG at build time, so the browser gets finished
+ * markup and no diagram library. Mermaid needs a DOM, so it runs inside
+ * a jsdom window of its own and nothing leaks onto the server's globals.
+ * jsdom has no layout engine: getBBox is estimated from element geometry
+ * and an average glyph width, which is what Mermaid sizes nodes from.
+ */
+
+/**
+ * Rendered Diagram
+ */
+export interface MermaidDiagram {
+  /** SVG in the default theme */
+  light: string;
+
+  /** SVG in the dark theme */
+  dark: string;
+
+  /** Accessible name: the diagram's title and description, or its type */
+  label: string;
+}
+
+/** Mermaid's browser bundle, evaluated inside the jsdom window */
+const MERMAID_BUNDLE = path.join(process.cwd(), "node_modules", "mermaid", "dist", "mermaid.min.js");
+
+/** Mermaid's default font size, in px */
+const FONT_SIZE = 16;
+
+/** Average glyph width of Mermaid's sans-serif stack, in em */
+const GLYPH_WIDTH = 0.6;
+
+/** Arguments per path command */
+const PATH_ARITY: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0 };
+
+/** Spoken name of each diagram keyword */
+const DIAGRAM_NAMES: Record<string, string> = {
+  flowchart: "Flowchart",
+  graph: "Flowchart",
+  sequenceDiagram: "Sequence diagram",
+  classDiagram: "Class diagram",
+  stateDiagram: "State diagram",
+  "stateDiagram-v2": "State diagram",
+  erDiagram: "Entity relationship diagram",
+  gantt: "Gantt chart",
+  pie: "Pie chart",
+  journey: "User journey",
+  gitGraph: "Git graph",
+  mindmap: "Mind map",
+  timeline: "Timeline",
+};
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const EMPTY_BOX: Box = { x: 0, y: 0, width: 0, height: 0 };
+
+/**
+ * Box around a list of x, y coordinates
+ */
+function boxAround(xs: number[], ys: number[]): Box | null {
+  if (xs.length === 0) return null;
+
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Box around a list of boxes
+ */
+function union(boxes: Box[]): Box | null {
+  return boxAround(
+    boxes.flatMap((box) => [box.x, box.x + box.width]),
+    boxes.flatMap((box) => [box.y, box.y + box.height])
+  );
+}
+
+/**
+ * Numeric attribute, resolving em lengths against the font size
+ */
+function length(element: Element, name: string): number {
+  const value = element.getAttribute(name) ?? "";
+  return (value.endsWith("em") ? parseFloat(value) * FONT_SIZE : parseFloat(value)) || 0;
+}
+
+/**
+ * Box around a path's points and control points
+ */
+function pathBox(d: string): Box | null {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+
+  for (const [, command, args] of d.matchAll(/([a-zA-Z])([^a-zA-Z]*)/g)) {
+    const type = command.toLowerCase();
+    const relative = command === type;
+    const numbers = (args.match(/-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? []).map(Number);
+    const arity = PATH_ARITY[type];
+
+    if (arity === undefined) continue;
+    if (arity === 0) {
+      x = startX;
+      y = startY;
+      continue;
+    }
+
+    for (let i = 0; i + arity <= numbers.length; i += arity) {
+      const values = numbers.slice(i, i + arity);
+      const originX = relative ? x : 0;
+      const originY = relative ? y : 0;
+
+      if (type === "h") {
+        x = originX + values[0];
+      } else if (type === "v") {
+        y = originY + values[0];
+      } else if (type === "a") {
+        // The arc's ellipse around its chord's midpoint (may overshoot a little)
+        const [rx, ry] = values;
+        const midX = (x + originX + values[5]) / 2;
+        const midY = (y + originY + values[6]) / 2;
+        xs.push(midX - rx, midX + rx);
+        ys.push(midY - ry, midY + ry);
+        x = originX + values[5];
+        y = originY + values[6];
+      } else {
+        // Control points of curves
+        for (let j = 0; j < arity - 2; j += 2) {
+          xs.push(originX + values[j]);
+          ys.push(originY + values[j + 1]);
+        }
+        x = originX + values[arity - 2];
+        y = originY + values[arity - 1];
+      }
+
+      if (type === "m" && i === 0) {
+        startX = x;
+        startY = y;
+      }
+      xs.push(x);
+      ys.push(y);
+    }
+  }
+
+  return boxAround(xs, ys);
+}
+
+/**
+ * Box of a text element, one row per child tspan
+ */
+function textBox(element: Element): Box {
+  const rows = [...element.children].filter((child) => child.tagName === "tspan");
+  const lines = rows.length > 0 ? rows : [element];
+  const width = Math.max(...lines.map((line) => (line.textContent ?? "").length)) * FONT_SIZE * GLYPH_WIDTH;
+
+  const first = lines[0];
+  const baseline = (first.hasAttribute("y") ? length(first, "y") : length(element, "y")) + length(first, "dy");
+  const anchor =
+    element.getAttribute("text-anchor") ??
+    element.ownerDocument.defaultView?.getComputedStyle(element).getPropertyValue("text-anchor");
+  const offset = anchor === "middle" ? width / 2 : anchor === "end" ? width : 0;
+
+  return {
+    x: length(element, "x") - offset,
+    y: baseline - FONT_SIZE * 0.8,
+    width,
+    height: lines.length * FONT_SIZE * 1.1 + FONT_SIZE * 0.1,
+  };
+}
+
+/**
+ * Estimated bounding box of an SVG element in its own coordinates
+ */
+function measure(element: Element): Box | null {
+  switch (element.tagName.toLowerCase()) {
+    case "defs":
+    case "desc":
+    case "marker":
+    case "style":
+    case "title":
+      return null;
+    case "text":
+      return textBox(element);
+    case "rect":
+    case "image":
+    case "foreignobject":
+      return {
+        x: length(element, "x"),
+        y: length(element, "y"),
+        width: length(element, "width"),
+        height: length(element, "height"),
+      };
+    case "circle": {
+      const r = length(element, "r");
+      return { x: length(element, "cx") - r, y: length(element, "cy") - r, width: 2 * r, height: 2 * r };
+    }
+    case "ellipse": {
+      const rx = length(element, "rx");
+      const ry = length(element, "ry");
+      return { x: length(element, "cx") - rx, y: length(element, "cy") - ry, width: 2 * rx, height: 2 * ry };
+    }
+    case "line":
+      return boxAround([length(element, "x1"), length(element, "x2")], [length(element, "y1"), length(element, "y2")]);
+    case "polygon":
+    case "polyline": {
+      const numbers = (element.getAttribute("points") ?? "").split(/[\s,]+/).filter(Boolean).map(Number);
+      return boxAround(
+        numbers.filter((_, index) => index % 2 === 0),
+        numbers.filter((_, index) => index % 2 === 1)
+      );
+    }
+    case "path":
+      return pathBox(element.getAttribute("d") ?? "");
+    default:
+      return union(
+        [...element.children].flatMap((child) => {
+          const box = measure(child);
+          if (!box) return [];
+
+          // Groups are placed with translate(); other transforms are rare in Mermaid output
+          const translate = /translate\(\s*(-?[\d.e]+)[\s,]*(-?[\d.e]+)?\s*\)/.exec(child.getAttribute("transform") ?? "");
+          return translate ? [{ ...box, x: box.x + Number(translate[1]), y: box.y + Number(translate[2] ?? 0) }] : [box];
+        })
+      );
+  }
+}
+
+let mermaidInstance: Promise<Mermaid> | undefined;
+
+/**
+ * Mermaid running in its own jsdom window, created on first use
+ */
+function getMermaid(): Promise<Mermaid> {
+  mermaidInstance ??= readFile(MERMAID_BUNDLE, "utf8").then((bundle) => {
+    const dom = new JSDOM("<!doctype html><html><body></body></html>", {
+      runScripts: "outside-only",
+      pretendToBeVisual: true,
+    });
+    const { window } = dom;
+
+    // Node built-ins the bundle expects from a browser but jsdom lacks
+    Object.assign(window, { TextEncoder, TextDecoder, structuredClone });
+    Object.assign(window.SVGElement.prototype, {
+      getBBox(this: Element) {
+        return measure(this) ?? EMPTY_BOX;
+      },
+      getComputedTextLength(this: Element) {
+        return (this.textContent ?? "").length * FONT_SIZE * GLYPH_WIDTH;
+      },
+    });
+
+    const context = dom.getInternalVMContext();
+    new vm.Script(bundle, { filename: MERMAID_BUNDLE }).runInContext(context);
+    return vm.runInContext("mermaid", context);
+  });
+
+  return mermaidInstance;
+}
+
+/**
+ * Accessible name of a diagram
+ *
+ * Uses accTitle (or the frontmatter title) and accDescr when the author
+ * wrote them, otherwise the diagram type, e.g. "Sequence diagram".
+ *
+ * @param chart - Diagram source
+ */
+export function describeMermaid(chart: string): string {
+  const frontmatter = /^\s*---\r?\n([\s\S]*?)\r?\n---/.exec(chart);
+  const body = frontmatter ? chart.slice(frontmatter[0].length) : chart;
+
+  const title =
+    /^\s*accTitle\s*:\s*(.+)$/m.exec(body)?.[1] ??
+    /^title\s*:\s*["']?(.+?)["']?\s*$/m.exec(frontmatter?.[1] ?? "")?.[1];
+  const description =
+    /^\s*accDescr\s*:\s*(.+)$/m.exec(body)?.[1] ?? /^\s*accDescr\s*\{([\s\S]*?)\}/m.exec(body)?.[1];
+
+  const keyword = body
+    .split("\n")
+    .map((line) => line.trim())
+    .find((line) => line && !line.startsWith("%%"))
+    ?.split(/\s/)[0];
+  const name = title?.trim() || DIAGRAM_NAMES[keyword ?? ""] || "Diagram";
+
+  return description ? `${name}: ${description.replace(/\s+/g, " ").trim()}` : name;
+}
+
+/** Renders run one at a time, since each sets Mermaid's global theme */
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+/** Rendered diagrams by source, shared by the page and its table of contents */
+const diagrams = new Map<string, Promise<MermaidDiagram | null>>();
+
+/**
+ * Render a diagram in the light and dark themes
+ *
+ * Returns null when the source doesn't parse, so the fence can fall
+ * back to showing its source instead of failing the build.
+ *
+ * @param chart - Diagram source from a ```mermaid fence
+ */
+export function renderMermaid(chart: string): Promise<MermaidDiagram | null> {
+  let diagram = diagrams.get(chart);
+
+  if (!diagram) {
+    // SVG ids scope Mermaid's embedded styles, so they must differ per diagram and theme
+    const id = `mermaid-${createHash("sha1").update(chart).digest("hex").slice(0, 8)}`;
+
+    const render = async (): Promise<MermaidDiagram> => {
+      const mermaid = await getMermaid();
+      const svg = async (theme: "default" | "dark") => {
+        mermaid.initialize({
+          startOnLoad: false,
+          securityLevel: "strict",
+          theme,
+          // Plain SVG text, which the getBBox estimate can measure
+          htmlLabels: false,
+          flowchart: { htmlLabels: false },
+        });
+        return (await mermaid.render(`${id}-${theme}`, chart)).svg;
+      };
+
+      return { light: await svg("default"), dark: await svg("dark"), label: describeMermaid(chart) };
+    };
+
+    diagram = renderQueue.then(render).catch((error) => {
+      console.warn("Mermaid diagram could not be rendered:", error);
+      return null;
+    });
+    renderQueue = diagram;
+    diagrams.set(chart, diagram);
+  }
+
+  return diagram;
+}
@@ -0,0 +1,161 @@
+import type { MetricIconName, MetricPoint, MetricUnit, VentureMetric } from "@/types/venture";
+import { formatCalendarDate } from "@/lib/dates";
+
+/**
+ * Metric Formatting
+ *
+ * Turns numeric venture metrics into display strings ("2K+", "92%",
+ * "< 2 min"). Safe to import from client components.
+ */
+
+/** Locale used when none is given */
+const DEFAULT_LOCALE = "en-US";
+
+/** Intl unit for each time unit */
+const TIME_UNITS: Partial<Record<MetricUnit, string>> = {
+  minute: "minute",
+  hour: "hour",
+  day: "day",
+};
+
+/**
+ * Icon used when a metric doesn't name one
+ */
+export const defaultMetricIcons: Record<MetricUnit, MetricIconName> = {
+  count: "trending",
+  users: "users",
+  percent: "trending",
+  minute: "clock",
+  hour: "clock",
+  day: "clock",
+};
+
+/**
+ * Format a number in compact notation, e.g. 1200 -> "1.2K"
+ *
+ * @param value - Number to format
+ * @param locale - BCP 47 locale (defaults to en-US)
+ */
+export function formatCompactNumber(value: number, locale: string = DEFAULT_LOCALE): string {
+  return new Intl.NumberFormat(locale, {
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(value);
+}
+
+/**
+ * Format a metric value with its unit, prefix and suffix
+ *
+ * Counts are compact ("2K"), percentages are in points (92 -> "92%")
+ * and time units use the locale's short unit ("5 min").
+ *
+ * @param metric - Metric to format
+ * @param locale - BCP 47 locale (defaults to en-US)
+ */
+export function formatMetric(
+  metric: Pick<VentureMetric, "value" | "unit" | "prefix" | "suffix">,
+  locale: string = DEFAULT_LOCALE
+): string {
+  const { value, unit, prefix = "", suffix = "" } = metric;
+  const timeUnit = TIME_UNITS[unit];
+
+  let formatted: string;
+  if (unit === "percent") {
+    formatted = new Intl.NumberFormat(locale, { style: "percent", maximumFractionDigits: 1 }).format(value / 100);
+  } else if (timeUnit) {
+    formatted = new Intl.NumberFormat(locale, {
+      style: "unit",
+      unit: timeUnit,
+      unitDisplay: "short",
+      maximumFractionDigits: 1,
+    }).format(value);
+  } else {
+    formatted = formatCompactNumber(value, locale);
+  }
+
+  return `${prefix}${formatted}${suffix}`;
+}
+
+/**
+ * Metric Trend
+ *
+ * Change between the first and last point of a series
+ */
+export interface MetricTrend {
+  /** Earliest measurement */
+  from: MetricPoint;
+
+  /** Latest measurement */
+  to: MetricPoint;
+
+  /** Relative growth in percent, or the change in points for percentages */
+  change: number;
+
+  /** How change is expressed */
+  kind: "relative" | "points";
+}
+
+/**
+ * Merge a metric's history with its current value
+ *
+ * @param history - Earlier measurements, in any order
+ * @param current - Latest measurement; replaces a history point on the same date
+ * @returns Points oldest first
+ */
+export function getMetricSeries(history: MetricPoint[], current?: MetricPoint): MetricPoint[] {
+  const points = current ? [...history.filter((point) => point.date !== current.date), current] : history;
+  return [...points].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Trend across a metric's series
+ *
+ * Percentages change in points (92% -> 96% is +4 pts); everything else
+ * grows relative to the first value.
+ *
+ * @returns The trend, or null with fewer than two points or a zero start
+ */
+export function getMetricTrend(metric: Pick<VentureMetric, "unit" | "series">): MetricTrend | null {
+  const { series, unit } = metric;
+  if (series.length < 2) return null;
+
+  const from = series[0];
+  const to = series[series.length - 1];
+
+  if (unit === "percent") {
+    return { from, to, change: to.value - from.value, kind: "points" };
+  }
+  if (from.value === 0) return null;
+
+  return { from, to, change: ((to.value - from.value) / Math.abs(from.value)) * 100, kind: "relative" };
+}
+
+/**
+ * Format a trend's change, e.g. "+150%" or "-2 pts"
+ *
+ * @param trend - Trend from getMetricTrend
+ * @param locale - BCP 47 locale (defaults to en-US)
+ */
+export function formatTrend(trend: MetricTrend, locale: string = DEFAULT_LOCALE): string {
+  const options: Intl.NumberFormatOptions = { signDisplay: "exceptZero", maximumFractionDigits: 1 };
+
+  if (trend.kind === "points") {
+    return `${new Intl.NumberFormat(locale, options).format(trend.change)} pts`;
+  }
+  return new Intl.NumberFormat(locale, { ...options, style: "percent" }).format(trend.change / 100);
+}
+
+/**
+ * Plain-language summary of a metric's series, for chart labels
+ *
+ * e.g. "Users: 150+ in Jan 2025 to 1.2K+ in Sep 2025 (+700%)"
+ */
+export function describeSeries(metric: VentureMetric, locale: string = DEFAULT_LOCALE): string {
+  const trend = getMetricTrend(metric);
+  if (!trend) return `${metric.label}: ${formatMetric(metric, locale)}`;
+
+  const at = (point: MetricPoint) =>
+    `${formatMetric({ ...metric, value: point.value }, locale)} in ${formatCalendarDate(point.date, { month: "short", year: "numeric" })}`;
+
+  return `${metric.label}: ${at(trend.from)} to ${at(trend.to)} (${formatTrend(trend, locale)})`;
+}
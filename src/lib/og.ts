@@ -0,0 +1,53 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Open Graph image dimensions (the 1.91:1 size every network accepts)
+ */
+export const ogImageSize = { width: 1200, height: 630 };
+
+export const ogImageContentType = "image/png";
+
+/** Formats next/og can decode */
+const COVER_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+};
+
+/** How long a remote cover may take before the card is drawn without it */
+const COVER_TIMEOUT_MS = 5000;
+
+/**
+ * Load a cover image as a data URL for an Open Graph card
+ *
+ * Root-relative paths are read from public/, anything else is fetched.
+ * Returns null when the image is missing, slow, or in a format next/og
+ * can't decode (e.g. WebP), so a bad cover degrades to the plain card
+ * instead of failing the build.
+ *
+ * @param src - coverImage from frontmatter
+ */
+export async function loadOgCover(src: string | undefined): Promise<string | null> {
+  if (!src) return null;
+
+  try {
+    if (src.startsWith("/") && !src.startsWith("//")) {
+      const type = COVER_TYPES[path.extname(src).toLowerCase()];
+      if (!type) return null;
+
+      const data = await readFile(path.join(process.cwd(), "public", src));
+      return `data:${type};base64,${data.toString("base64")}`;
+    }
+
+    const response = await fetch(src, { signal: AbortSignal.timeout(COVER_TIMEOUT_MS) });
+    const type = response.headers.get("content-type")?.split(";")[0].trim() ?? "";
+    if (!response.ok || !Object.values(COVER_TYPES).includes(type)) return null;
+
+    const data = Buffer.from(await response.arrayBuffer());
+    return `data:${type};base64,${data.toString("base64")}`;
+  } catch (error) {
+    console.warn(`Open Graph cover "${src}" could not be loaded:`, error);
+    return null;
+  }
+}
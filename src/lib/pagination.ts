@@ -0,0 +1,84 @@
+/**
+ * Page of Results
+ */
+export interface Page<T> {
+  /** Items on this page */
+  items: T[];
+
+  /** 1-based page number */
+  page: number;
+
+  /** Number of pages (at least 1, so an empty listing still has a page) */
+  totalPages: number;
+
+  /** Items across all pages */
+  totalItems: number;
+}
+
+/**
+ * Number of pages needed for a list
+ */
+export function countPages(totalItems: number, pageSize: number): number {
+  return Math.max(1, Math.ceil(totalItems / pageSize));
+}
+
+/**
+ * Slice one page out of a list
+ *
+ * @param items - Full, already sorted list
+ * @param page - 1-based page number
+ * @param pageSize - Items per page
+ * @returns The page, or null when it is past the last page
+ */
+export function paginate<T>(items: T[], page: number, pageSize: number): Page<T> | null {
+  const totalPages = countPages(items.length, pageSize);
+  if (page < 1 || page > totalPages) return null;
+
+  return {
+    items: items.slice((page - 1) * pageSize, page * pageSize),
+    page,
+    totalPages,
+    totalItems: items.length,
+  };
+}
+
+/**
+ * Parse a /page/[n] segment
+ *
+ * Page 1 has no /page/ URL of its own, so "1" is rejected along with
+ * anything that isn't a plain positive integer ("02", "2.5", "abc").
+ *
+ * @returns Page number, or null when the segment is invalid
+ */
+export function parsePageParam(value: string): number | null {
+  if (!/^[1-9]\d*$/.test(value)) return null;
+  const page = Number(value);
+  return page > 1 ? page : null;
+}
+
+/**
+ * Page numbers to show in pagination controls
+ *
+ * Always includes the first and last pages and a window around the
+ * current one; gaps are marked with "ellipsis".
+ *
+ * @example getPageRange(6, 12) // [1, "ellipsis", 5, 6, 7, "ellipsis", 12]
+ */
+export function getPageRange(page: number, totalPages: number, siblings = 1): (number | "ellipsis")[] {
+  const range: (number | "ellipsis")[] = [];
+
+  for (let current = 1; current <= totalPages; current++) {
+    const distance = Math.abs(current - page);
+    const isEdge = current === 1 || current === totalPages;
+    // An ellipsis standing in for a single page would take as much room as the page
+    const fillsGap = distance === siblings + 1 && (current === 2 || current === totalPages - 1);
+
+    if (isEdge || distance <= siblings || fillsGap) {
+      range.push(current);
+    } else if (range[range.length - 1] !== "ellipsis") {
+      range.push("ellipsis");
+    }
+  }
+
+  return range;
+}
@@ -0,0 +1,89 @@
+import type { BlogPost, PostOrder } from "@/types/blog";
+import { postOrderConfig, postOrders } from "@/types/blog";
+import { isPostOrder, sortPosts } from "@/lib/mdx";
+import { countPages, paginate, parsePageParam, type Page } from "@/lib/pagination";
+import { siteConfig } from "@/lib/site";
+
+/**
+ * Listing Route Params
+ *
+ * Segments shared by every paginated listing: /sorted/[order] and
+ * /page/[n], both optional
+ */
+export interface PostListingParams {
+  order?: string;
+  n?: string;
+}
+
+/**
+ * Post Listing
+ *
+ * One page of a sorted post listing
+ */
+export interface PostListing {
+  /** Listing root, e.g. "/blog/tags/ai" */
+  basePath: string;
+
+  /** Current ordering */
+  order: PostOrder;
+
+  /** Posts on this page with the page count */
+  page: Page<BlogPost>;
+}
+
+/**
+ * Resolve a listing page from its route params
+ *
+ * The default order and page 1 only exist at the listing root, so
+ * /sorted/newest and /page/1 are rejected rather than duplicated.
+ *
+ * @param basePath - Listing root
+ * @param posts - Every post in the listing
+ * @param params - Route params
+ * @returns The page, or null when the order or page doesn't exist
+ */
+export function getPostListing(
+  basePath: string,
+  posts: BlogPost[],
+  params: PostListingParams
+): PostListing | null {
+  const order = params.order ?? postOrders[0];
+  if (!isPostOrder(order) || params.order === postOrders[0]) return null;
+
+  const pageNumber = params.n === undefined ? 1 : parsePageParam(params.n);
+  if (pageNumber === null) return null;
+
+  const page = paginate(sortPosts(posts, order), pageNumber, siteConfig.blog.postsPerPage);
+  return page && { basePath, order, page };
+}
+
+/**
+ * Static params for a listing's sub-routes
+ *
+ * @param totalPosts - Posts in the listing
+ * @param route - Which sub-route: /page/[n], /sorted/[order] or both
+ */
+export function getListingParams(
+  totalPosts: number,
+  route: "page" | "sorted" | "sorted-page"
+): PostListingParams[] {
+  const totalPages = countPages(totalPosts, siteConfig.blog.postsPerPage);
+  const pages = Array.from({ length: totalPages - 1 }, (_, index) => String(index + 2));
+  const orders = postOrders.slice(1);
+
+  if (route === "page") return pages.map((n) => ({ n }));
+  if (route === "sorted") return orders.map((order) => ({ order }));
+  return orders.flatMap((order) => pages.map((n) => ({ order, n })));
+}
+
+/**
+ * Title suffix describing a listing page, e.g. " (Oldest, page 2)"
+ */
+export function describeListing({ order, page }: PostListing): string {
+  const parts = [
+    order !== postOrders[0] ? postOrderConfig[order].label : null,
+    page.page > 1 ? `page ${page.page}` : null,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? ` (${parts.join(", ")})` : "";
+}
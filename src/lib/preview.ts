@@ -0,0 +1,55 @@
+import { timingSafeEqual } from "crypto";
+import { draftMode } from "next/headers";
+
+/**
+ * Draft Preview
+ *
+ * Unpublished and scheduled content is only rendered while Next.js draft
+ * mode is enabled. Draft mode is switched on by /api/draft with the secret
+ * from the DRAFT_MODE_SECRET environment variable, and off again by
+ * /api/draft/disable.
+ */
+
+/**
+ * Check a preview token against DRAFT_MODE_SECRET
+ *
+ * Always false when no secret is configured, so preview cannot be
+ * enabled by accident in an environment that never set one.
+ *
+ * @param token - Token supplied in the preview URL
+ */
+export function isValidPreviewToken(token: string | null): boolean {
+  const secret = process.env.DRAFT_MODE_SECRET;
+  if (!secret || !token) return false;
+
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(token);
+
+  // Constant-time comparison so the secret cannot be guessed byte by byte
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Whether the current request is a draft preview
+ */
+export async function isPreviewEnabled(): Promise<boolean> {
+  return (await draftMode()).isEnabled;
+}
+
+/**
+ * Resolve an entry for the current request
+ *
+ * Public entries are always returned; drafts and scheduled entries only
+ * in draft mode, so callers can notFound() on null.
+ *
+ * @param entry - Entry looked up by slug (null when missing)
+ * @param isPublic - Visibility rule of the entry's collection
+ */
+export async function getViewableEntry<T>(
+  entry: T | null,
+  isPublic: (entry: T) => boolean
+): Promise<T | null> {
+  if (!entry) return null;
+  if (isPublic(entry)) return entry;
+  return (await isPreviewEnabled()) ? entry : null;
+}
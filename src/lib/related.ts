@@ -0,0 +1,201 @@
+import { getAllPosts } from "@/lib/mdx";
+import { getAllVentures } from "@/lib/ventures";
+import { markdownToPlainText } from "@/lib/markdown";
+import { memoizeContent } from "@/lib/content";
+import { tokenize } from "@/lib/search/engine";
+import { postHref, projectHref } from "@/lib/routes";
+import { slugify } from "@/lib/utils";
+
+/**
+ * Related Content
+ * 
+ * Scores every pair of posts and ventures once per build:
+ * - shared tags/technologies (compared by slug)
+ * - same post category
+ * - TF-IDF cosine similarity of titles, descriptions and bodies
+ * 
+ * Ties are broken by key, so results are deterministic.
+ */
+
+/** Score contribution of each signal */
+const WEIGHTS = {
+  sharedKeyword: 2,
+  sameCategory: 3,
+  similarity: 10,
+};
+
+/** Words too common to say anything about a topic */
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be been but by can do does for from has have how i if in into is it its " +
+    "let me more most my no not of on or our so such than that the their them then there these " +
+    "they this those to too up us was we were what when where which while who why will with you your"
+  ).split(" ")
+);
+
+/**
+ * Related Item
+ */
+export interface RelatedItem {
+  type: "post" | "venture";
+  slug: string;
+  title: string;
+  description: string;
+  href: string;
+  /** Post category or venture status label */
+  label?: string;
+  coverImage?: string;
+  score: number;
+}
+
+interface CorpusItem extends Omit<RelatedItem, "score"> {
+  key: string;
+  category?: string;
+  keywords: Set<string>;
+  termFrequencies: Map<string, number>;
+}
+
+/**
+ * Term frequencies of a text, without stop words and single characters
+ */
+function termFrequencies(text: string): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  for (const token of tokenize(text)) {
+    if (token.length < 2 || STOP_WORDS.has(token)) continue;
+    frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+  }
+  return frequencies;
+}
+
+function buildCorpus(): CorpusItem[] {
+  const posts = getAllPosts().map((post): CorpusItem => ({
+    key: `post:${post.slug}`,
+    type: "post",
+    slug: post.slug,
+    title: post.frontmatter.title,
+    description: post.frontmatter.description,
+    href: postHref(post.slug),
+    label: post.frontmatter.category,
+    coverImage: post.frontmatter.coverImage,
+    category: slugify(post.frontmatter.category),
+    keywords: new Set(post.frontmatter.tags.map(slugify)),
+    termFrequencies: termFrequencies(
+      [post.frontmatter.title, post.frontmatter.description, markdownToPlainText(post.content)].join(" ")
+    ),
+  }));
+
+  const ventures = getAllVentures().map((venture): CorpusItem => ({
+    key: `venture:${venture.slug}`,
+    type: "venture",
+    slug: venture.slug,
+    title: venture.frontmatter.title,
+    description: venture.frontmatter.description,
+    href: projectHref(venture.slug),
+    label: "Venture",
+    coverImage: venture.frontmatter.coverImage,
+    keywords: new Set(venture.frontmatter.technologies.map(slugify)),
+    termFrequencies: termFrequencies(
+      [venture.frontmatter.title, venture.frontmatter.description, markdownToPlainText(venture.content)].join(" ")
+    ),
+  }));
+
+  return [...posts, ...ventures];
+}
+
+/**
+ * TF-IDF vectors (unit length) for every corpus item
+ */
+function buildVectors(corpus: CorpusItem[]): Map<string, Map<string, number>> {
+  const documentFrequency = new Map<string, number>();
+  for (const item of corpus) {
+    for (const term of item.termFrequencies.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const vectors = new Map<string, Map<string, number>>();
+  for (const item of corpus) {
+    const vector = new Map<string, number>();
+    let norm = 0;
+
+    for (const [term, frequency] of item.termFrequencies) {
+      const idf = Math.log(corpus.length / (documentFrequency.get(term) ?? 1));
+      const weight = (1 + Math.log(frequency)) * idf;
+      if (weight > 0) {
+        vector.set(term, weight);
+        norm += weight * weight;
+      }
+    }
+
+    norm = Math.sqrt(norm);
+    for (const [term, weight] of vector) {
+      vector.set(term, weight / norm);
+    }
+    vectors.set(item.key, vector);
+  }
+
+  return vectors;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [term, weight] of small) {
+    dot += weight * (large.get(term) ?? 0);
+  }
+  return dot;
+}
+
+/**
+ * Ranked related items for every corpus item, keyed by "type:slug"
+ */
+const getRelatedIndex = memoizeContent(() => {
+  const corpus = buildCorpus();
+  const vectors = buildVectors(corpus);
+  const index = new Map<string, RelatedItem[]>();
+
+  for (const item of corpus) {
+    const scored = corpus
+      .filter((other) => other.key !== item.key)
+      .map((other) => {
+        let shared = 0;
+        for (const keyword of other.keywords) {
+          if (item.keywords.has(keyword)) shared++;
+        }
+
+        const score =
+          WEIGHTS.sharedKeyword * shared +
+          (item.category && item.category === other.category ? WEIGHTS.sameCategory : 0) +
+          WEIGHTS.similarity * cosine(vectors.get(item.key)!, vectors.get(other.key)!);
+
+        // Drop the corpus-only fields before handing items to pages
+        const { key, type, slug, title, description, href, label, coverImage } = other;
+        return { key, item: { type, slug, title, description, href, label, coverImage, score } };
+      })
+      .filter(({ item: related }) => related.score > 0)
+      .sort((a, b) => b.item.score - a.item.score || a.key.localeCompare(b.key))
+      .map(({ item: related }) => ({ ...related, score: Math.round(related.score * 1000) / 1000 }));
+
+    index.set(item.key, scored);
+  }
+
+  return index;
+});
+
+/**
+ * Get Related Content
+ * 
+ * @param type - Collection of the current page
+ * @param slug - Slug of the current page
+ * @param limit - Maximum number of items
+ * @param only - Restrict results to one collection
+ * @returns Most related posts and ventures, best first
+ */
+export function getRelatedContent(
+  type: RelatedItem["type"],
+  slug: string,
+  { limit = 3, only }: { limit?: number; only?: RelatedItem["type"] } = {}
+): RelatedItem[] {
+  const related = getRelatedIndex().get(`${type}:${slug}`) ?? [];
+  return related.filter((item) => !only || item.type === only).slice(0, limit);
+}
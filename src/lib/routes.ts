@@ -0,0 +1,123 @@
+import { slugify } from "@/lib/utils";
+import { postOrders, type PostOrder } from "@/types/blog";
+
+/**
+ * Route Helpers
+ * 
+ * Builds internal URLs in one place so pages, cards and feeds agree.
+ * Safe to import from client components (no filesystem access).
+ */
+
+/** Blog post page */
+export function postHref(slug: string): string {
+  return `/blog/${slug}`;
+}
+
+/** Tag archive page, accepts a tag name or slug */
+export function tagHref(tag: string): string {
+  return `/blog/tags/${slugify(tag)}`;
+}
+
+/** Category archive page, accepts a category name or slug */
+export function categoryHref(category: string): string {
+  return `/blog/categories/${slugify(category)}`;
+}
+
+/** Series landing page, accepts a series name or slug */
+export function seriesHref(series: string): string {
+  return `/blog/series/${slugify(series)}`;
+}
+
+/** Author profile page */
+export function authorHref(slug: string): string {
+  return `/authors/${slug}`;
+}
+
+/**
+ * Segments under /blog that belong to listing routes rather than posts
+ */
+export const reservedBlogSegments = ["page", "sorted", "tags", "categories", "series", "archive"];
+
+/**
+ * Why a post slug can't be served at /blog/[slug], if it can't
+ *
+ * Reserved segments are matched by their own routes first, and four-digit
+ * slugs by the year archive rewrite in next.config.ts, so such a post
+ * would never be reachable.
+ */
+export function postSlugConflict(slug: string): string | undefined {
+  if (reservedBlogSegments.includes(slug)) {
+    return `"${slug}" is reserved for /blog/${slug} listings`;
+  }
+  if (/^\d{4}$/.test(slug)) {
+    return `"${slug}" would be served by the /blog/${slug} year archive`;
+  }
+  return undefined;
+}
+
+/**
+ * Date archive page
+ * 
+ * /blog/archive lists every year; /blog/2025 and /blog/2025/10 are
+ * rewritten to /blog/archive/[year]/[month] in next.config.ts.
+ * 
+ * @param year - Calendar year (omit for the full archive)
+ * @param month - 1-based month
+ */
+export function archiveHref(year?: number, month?: number): string {
+  if (year === undefined) return "/blog/archive";
+  if (month === undefined) return `/blog/${year}`;
+  return `/blog/${year}/${String(month).padStart(2, "0")}`;
+}
+
+/**
+ * Page of a post listing
+ * 
+ * The default order and page 1 map to the listing's own URL, so each
+ * page has exactly one address: /blog, /blog/page/2,
+ * /blog/sorted/oldest, /blog/sorted/oldest/page/2.
+ * 
+ * @param basePath - Listing root ("/blog", "/blog/tags/ai", ...)
+ */
+export function listingHref(
+  basePath: string,
+  { order = postOrders[0], page = 1 }: { order?: PostOrder; page?: number } = {}
+): string {
+  const sorted = order === postOrders[0] ? "" : `/sorted/${order}`;
+  const paged = page > 1 ? `/page/${page}` : "";
+  return `${basePath}${sorted}${paged}`;
+}
+
+/** Venture case study page */
+export function projectHref(slug: string): string {
+  return `/projects/${slug}`;
+}
+
+/** Fragment id of a milestone on its venture page, e.g. "2025-06-01-public-beta" */
+export function milestoneAnchor(milestone: { date: string; title: string }): string {
+  return `${milestone.date}-${slugify(milestone.title)}`;
+}
+
+/**
+ * Feed Format
+ * 
+ * Every feed is published as RSS 2.0, Atom 1.0 and JSON Feed
+ */
+export type FeedFormat = "rss" | "atom" | "json";
+
+/** File name of each feed format, appended to the feed's base path */
+const FEED_FILES: Record<FeedFormat, string> = {
+  rss: "feed.xml",
+  atom: "atom.xml",
+  json: "feed.json",
+};
+
+/**
+ * Path of a feed file
+ * 
+ * @param basePath - Listing the feed mirrors ("" for the whole blog, "/blog/tags/ai" for a tag)
+ * @param format - Feed format
+ */
+export function feedPath(basePath: string, format: FeedFormat): string {
+  return `${basePath}/${FEED_FILES[format]}`;
+}
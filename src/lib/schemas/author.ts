@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { requiredString } from "./fields";
+
+/**
+ * Author Frontmatter Schema
+ *
+ * Validates metadata at the top of files in content/authors.
+ * The file body holds the long-form bio shown on the profile page.
+ */
+export const authorFrontmatterSchema = z.object({
+  /** Display name */
+  name: requiredString,
+
+  /** Role shown under the name in post bylines */
+  role: requiredString,
+
+  /** One-line bio for cards and metadata */
+  bio: requiredString,
+
+  /** Avatar image URL (initials are shown when missing) */
+  avatar: z.string().optional(),
+
+  /** Profile links */
+  social: z
+    .object({
+      website: z.url().optional(),
+      github: z.url().optional(),
+      linkedin: z.url().optional(),
+      twitter: z.url().optional(),
+      email: z.email().optional(),
+    })
+    .default({}),
+});
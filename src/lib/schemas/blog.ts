@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { isoDate, requiredString, stringList } from "./fields";
+
+/**
+ * Blog Frontmatter Schema
+ *
+ * Validates metadata at the top of files in content/blog
+ */
+export const blogFrontmatterSchema = z.object({
+  /** Post title */
+  title: requiredString,
+
+  /** Post description/excerpt */
+  description: requiredString,
+
+  /** Publication date (YYYY-MM-DD) */
+  date: isoDate,
+
+  /** Date of the last significant revision (YYYY-MM-DD) */
+  updated: isoDate.optional(),
+
+  /**
+   * Author slug(s) from content/authors
+   *
+   * A single slug or a list for co-authored posts, normalised to a list
+   */
+  author: z
+    .union([requiredString, z.array(requiredString).min(1, { error: "must list at least one author" })])
+    .transform((value) => (Array.isArray(value) ? value : [value])),
+
+  /** Category/topic */
+  category: requiredString,
+
+  /** Tags for filtering */
+  tags: stringList,
+
+  /** Cover image URL */
+  coverImage: z.string().optional(),
+
+  /** Reading time override (e.g. "8 min read") */
+  readingTime: z.string().optional(),
+
+  /** Multi-part series membership */
+  series: z
+    .object({
+      /** Series name, shared by every part */
+      name: requiredString,
+
+      /** 1-based position within the series */
+      part: z.number().int().positive(),
+    })
+    .optional(),
+
+  /** Whether post is published */
+  published: z.boolean().default(true),
+});
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { monthYear, requiredString, stringList } from "./fields";
+
+/**
+ * Experience Frontmatter Schema
+ *
+ * Validates metadata at the top of files in content/experiences
+ */
+export const experienceFrontmatterSchema = z.object({
+  /** Job title */
+  title: requiredString,
+
+  /** Company name */
+  company: requiredString,
+
+  /** Office location */
+  location: z.string().optional(),
+
+  /** Start date (e.g. "July 2019") */
+  startDate: monthYear,
+
+  /** End date (e.g. "Oct 2024" or "Present") */
+  endDate: z.union([z.literal("Present"), monthYear]),
+
+  /** Whether this is the current role */
+  current: z.boolean().default(false),
+
+  /** Role description */
+  description: requiredString,
+
+  /** Key achievements (bullet points) */
+  achievements: stringList,
+
+  /** Technology stack used */
+  technologies: stringList,
+
+  /** Display order (lower comes first) */
+  order: z.number().int().optional(),
+});
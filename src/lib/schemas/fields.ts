@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+/**
+ * Shared Frontmatter Field Schemas
+ *
+ * Reusable building blocks for the content collection schemas
+ */
+
+/**
+ * Calendar date in YYYY-MM-DD format
+ *
+ * Frontmatter is parsed without YAML timestamps (see defineCollection),
+ * so unquoted dates arrive as written and impossible ones such as
+ * 2025-02-30 are rejected rather than rolled over.
+ */
+export const isoDate = z.iso.date({ error: "expected a real date in YYYY-MM-DD format" });
+
+const MONTHS = [
+  "jan", "feb", "mar", "apr", "may", "jun",
+  "jul", "aug", "sep", "oct", "nov", "dec",
+];
+
+/**
+ * Month and year such as "July 2019" or "Nov 2024"
+ *
+ * Accepts full or abbreviated English month names.
+ */
+export const monthYear = z.string().refine(
+  (value) => {
+    const match = /^([A-Za-z]+)\.? (\d{4})$/.exec(value.trim());
+    return match !== null && MONTHS.includes(match[1].slice(0, 3).toLowerCase());
+  },
+  { error: 'expected a month and year such as "July 2019"' }
+);
+
+/**
+ * Non-empty trimmed string
+ */
+export const requiredString = z.string().trim().min(1, { error: "must not be empty" });
+
+/**
+ * List of non-empty strings, defaulting to an empty list
+ */
+export const stringList = z.array(requiredString).default([]);
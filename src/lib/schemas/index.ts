@@ -0,0 +1,14 @@
+export { blogFrontmatterSchema } from "./blog";
+export {
+  ventureFrontmatterSchema,
+  ventureMetricSchema,
+  metricPointSchema,
+  ventureMilestoneSchema,
+  ventureStatuses,
+  ventureLinkTypes,
+  metricUnits,
+  metricIcons,
+} from "./venture";
+export { experienceFrontmatterSchema } from "./experience";
+export { authorFrontmatterSchema } from "./author";
+export { validateFrontmatter, ContentValidationError } from "./validate";
@@ -0,0 +1,61 @@
+import path from "path";
+import { z } from "zod";
+
+/**
+ * Content Validation Error
+ *
+ * Thrown when a content file's frontmatter can't be parsed or does not
+ * match its schema.
+ * The message lists every failing field so a build log points straight
+ * at the file and key that need fixing.
+ */
+export class ContentValidationError extends Error {
+  /** Path of the offending file, relative to the project root */
+  readonly file: string;
+
+  /** Individual field problems (e.g. "tags: expected array, received string") */
+  readonly issues: string[];
+
+  constructor(file: string, issues: string[]) {
+    super(
+      `Invalid content in ${file}:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`
+    );
+    this.name = "ContentValidationError";
+    this.file = file;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Format a zod issue as "field.path: message"
+ */
+function formatIssue(issue: z.core.$ZodIssue): string {
+  const field = issue.path.length > 0 ? issue.path.map(String).join(".") : "(root)";
+  return `${field}: ${issue.message}`;
+}
+
+/**
+ * Validate frontmatter against a schema
+ *
+ * Applies schema defaults and returns the typed result, or throws a
+ * ContentValidationError describing every invalid field.
+ *
+ * @param schema - Zod schema for the content collection
+ * @param data - Raw frontmatter from gray-matter
+ * @param filePath - Absolute path of the source file (used in the error report)
+ * @returns Parsed frontmatter with defaults applied
+ */
+export function validateFrontmatter<T extends z.ZodType>(
+  schema: T,
+  data: unknown,
+  filePath: string
+): z.output<T> {
+  const result = schema.safeParse(data);
+
+  if (!result.success) {
+    const relativePath = path.relative(process.cwd(), filePath);
+    throw new ContentValidationError(relativePath, result.error.issues.map(formatIssue));
+  }
+
+  return result.data;
+}
@@ -0,0 +1,171 @@
+import { z } from "zod";
+import { isoDate, requiredString, stringList } from "./fields";
+
+/**
+ * Venture Status Values
+ *
+ * Single list shared by the schema and the status badge configuration
+ */
+export const ventureStatuses = ["building", "concept", "research", "live"] as const;
+
+/**
+ * Venture Link Types
+ *
+ * Kinds of link a venture can have, in display order
+ */
+export const ventureLinkTypes = ["live", "demo", "source", "docs"] as const;
+
+/**
+ * Metric Units
+ *
+ * What a metric value measures, which decides how it is formatted.
+ * "users" is a count of people using the venture and is summed into
+ * the portfolio's users reached.
+ */
+export const metricUnits = ["count", "users", "percent", "minute", "hour", "day"] as const;
+
+/**
+ * Metric Icons
+ *
+ * Icon identifiers a metric can use (see MetricIcon)
+ */
+export const metricIcons = ["users", "trending", "target", "zap", "clock", "rocket", "award"] as const;
+
+/**
+ * Metric Point Schema
+ *
+ * A dated measurement in a metric's history
+ */
+export const metricPointSchema = z.object({
+  /** Date measured (YYYY-MM-DD) */
+  date: isoDate,
+
+  /** Measured value */
+  value: z.number(),
+});
+
+/**
+ * Venture Metric Schema
+ *
+ * One measured achievement, e.g. { label: "Farmers", value: 2000,
+ * unit: "users", suffix: "+" } for "2K+ Farmers". value and asOf are
+ * the latest measurement; history holds earlier ones.
+ */
+export const ventureMetricSchema = z.object({
+  /** Display label */
+  label: requiredString,
+
+  /** Measured value (percentages in points: 92 means 92%) */
+  value: z.number(),
+
+  /** What the value measures */
+  unit: z.enum(metricUnits).default("count"),
+
+  /** Text before the number, e.g. "+" or "< " */
+  prefix: z.string().optional(),
+
+  /** Text after the number, e.g. "+" or "/sermon" */
+  suffix: z.string().optional(),
+
+  /** Icon identifier (defaults by unit) */
+  icon: z.enum(metricIcons).optional(),
+
+  /** Date the value was measured (YYYY-MM-DD) */
+  asOf: isoDate.optional(),
+
+  /** Earlier measurements, plotted with the current value as a trend */
+  history: z.array(metricPointSchema).default([]),
+}).refine((metric) => metric.history.length === 0 || metric.asOf !== undefined, {
+  error: "asOf is required when history is given (it dates the current value)",
+  path: ["asOf"],
+});
+
+/**
+ * Venture Milestone Schema
+ *
+ * A dated step in a venture's progress. Milestones that change the
+ * venture's status name the status it moved to.
+ */
+export const ventureMilestoneSchema = z.object({
+  /** Date reached (YYYY-MM-DD) */
+  date: isoDate,
+
+  /** Short headline */
+  title: requiredString,
+
+  /** What happened */
+  description: z.string().optional(),
+
+  /** Status the venture moved to */
+  status: z.enum(ventureStatuses).optional(),
+});
+
+/**
+ * Venture Frontmatter Schema
+ *
+ * Validates metadata at the top of files in content/ventures
+ */
+export const ventureFrontmatterSchema = z.object({
+  /** Project name */
+  title: requiredString,
+
+  /** Brief description of the venture */
+  description: requiredString,
+
+  /** Icon identifier (see iconMap in VentureCard) */
+  icon: requiredString,
+
+  /** Current development status */
+  status: z.enum(ventureStatuses),
+
+  /** Project links by type (unknown types are rejected) */
+  links: z
+    .object({
+      /** Production site */
+      live: z.url().optional(),
+      /** Demo or sandbox */
+      demo: z.url().optional(),
+      /** Source repository */
+      source: z.url().optional(),
+      /** Documentation */
+      docs: z.url().optional(),
+    })
+    .strict()
+    .default({}),
+
+  /** Technology stack used */
+  technologies: stringList,
+
+  /** Whether the venture is highlighted on the home page */
+  featured: z.boolean().default(false),
+
+  /** Whether the case study is public (drafts are only visible in preview) */
+  published: z.boolean().default(true),
+
+  /** Date the case study was last revised (YYYY-MM-DD) */
+  updated: isoDate.optional(),
+
+  /** Display order (lower comes first) */
+  order: z.number().int().optional(),
+
+  /** Cover image URL */
+  coverImage: z.string().optional(),
+
+  /** Screenshot URLs */
+  screenshots: z.array(z.string()).optional(),
+
+  /** Measured achievements, in display order */
+  metrics: z.array(ventureMetricSchema).default([]),
+
+  /** Progress log, in any order (the latest status change must match status) */
+  milestones: z.array(ventureMilestoneSchema).default([]),
+}).refine(
+  (venture) => {
+    const latest = venture.milestones
+      .filter((milestone) => milestone.status !== undefined)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .at(-1);
+    return latest === undefined || latest.status === venture.status;
+  },
+  { error: "the latest milestone status must match status", path: ["milestones"] }
+);
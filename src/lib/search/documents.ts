@@ -0,0 +1,57 @@
+import { getAllPosts } from "@/lib/mdx";
+import { getAllVentures } from "@/lib/ventures";
+import { getAllExperiences } from "@/lib/experiences";
+import { markdownToPlainText } from "@/lib/markdown";
+import { memoizeContent } from "@/lib/content";
+import { postHref, projectHref } from "@/lib/routes";
+import { statusConfig } from "@/types/venture";
+import type { SearchDocument } from "./types";
+
+/**
+ * Build Search Documents
+ * 
+ * Flattens every published post, venture and experience into the
+ * shape the search engine ranks. Memoized with the content cache.
+ */
+export const getSearchDocuments = memoizeContent((): SearchDocument[] => {
+  const posts = getAllPosts().map((post): SearchDocument => ({
+    id: `post:${post.slug}`,
+    type: "post",
+    title: post.frontmatter.title,
+    description: post.frontmatter.description,
+    url: postHref(post.slug),
+    category: post.frontmatter.category,
+    keywords: post.frontmatter.tags,
+    headings: post.stats.headings.map((heading) => heading.text),
+    body: markdownToPlainText(post.content),
+    date: post.frontmatter.date,
+  }));
+
+  const ventures = getAllVentures().map((venture): SearchDocument => ({
+    id: `venture:${venture.slug}`,
+    type: "venture",
+    title: venture.frontmatter.title,
+    description: venture.frontmatter.description,
+    url: projectHref(venture.slug),
+    status: statusConfig[venture.frontmatter.status].label,
+    keywords: venture.frontmatter.technologies,
+    headings: venture.stats.headings.map((heading) => heading.text),
+    body: markdownToPlainText(venture.content),
+  }));
+
+  const experiences = getAllExperiences().map((experience): SearchDocument => ({
+    id: `experience:${experience.slug}`,
+    type: "experience",
+    title: experience.frontmatter.title,
+    description: experience.frontmatter.description,
+    // Experiences have no page of their own
+    url: "/#experience",
+    category: experience.frontmatter.company,
+    keywords: experience.frontmatter.technologies,
+    headings: [],
+    body: [...experience.frontmatter.achievements, markdownToPlainText(experience.content)].join(" "),
+    date: experience.frontmatter.startDate,
+  }));
+
+  return [...posts, ...ventures, ...experiences];
+});
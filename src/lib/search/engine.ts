@@ -0,0 +1,229 @@
+import type {
+  FacetCount,
+  SearchDocument,
+  SearchFacet,
+  SearchFilters,
+  SearchResponse,
+  SearchResult,
+} from "./types";
+
+/**
+ * Search Engine
+ * 
+ * Small in-memory ranker shared by the /search page (server) and the
+ * search dialog (browser). No external service is involved.
+ * 
+ * Ranking:
+ * - Every query term must match at least one field (AND semantics)
+ * - Exact token matches score the field weight, prefix matches half of it
+ * - Titles containing the whole query get a phrase bonus
+ */
+
+/** Relative importance of each field */
+const FIELD_WEIGHTS = {
+  title: 10,
+  keywords: 6,
+  headings: 4,
+  description: 3,
+  body: 1,
+} as const;
+
+type Field = keyof typeof FIELD_WEIGHTS;
+
+/** Body matches stop adding score after this many hits */
+const MAX_COUNTED_MATCHES = 5;
+
+const PHRASE_BONUS = 15;
+
+const SNIPPET_LENGTH = 180;
+
+const FACETS: SearchFacet[] = ["type", "category", "status"];
+
+/**
+ * Split text into lowercase word tokens
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+interface PreparedDocument {
+  document: SearchDocument;
+  tokens: Record<Field, string[]>;
+}
+
+const preparedCache = new WeakMap<SearchDocument[], PreparedDocument[]>();
+
+/**
+ * Tokenize every field once per document list
+ */
+function prepare(documents: SearchDocument[]): PreparedDocument[] {
+  let prepared = preparedCache.get(documents);
+
+  if (!prepared) {
+    prepared = documents.map((document) => ({
+      document,
+      tokens: {
+        title: tokenize(document.title),
+        keywords: tokenize(document.keywords.join(" ")),
+        headings: tokenize(document.headings.join(" ")),
+        description: tokenize(document.description),
+        body: tokenize(document.body),
+      },
+    }));
+    preparedCache.set(documents, prepared);
+  }
+
+  return prepared;
+}
+
+/**
+ * Score a document, or return 0 when a term is missing
+ */
+function scoreDocument(prepared: PreparedDocument, terms: string[], phrase: string): number {
+  let total = 0;
+
+  for (const term of terms) {
+    let termScore = 0;
+
+    for (const field of Object.keys(FIELD_WEIGHTS) as Field[]) {
+      let exact = 0;
+      let prefix = 0;
+
+      for (const token of prepared.tokens[field]) {
+        if (token === term) exact++;
+        else if (token.startsWith(term)) prefix++;
+      }
+
+      const weight = FIELD_WEIGHTS[field];
+      termScore +=
+        weight * Math.min(exact, MAX_COUNTED_MATCHES) +
+        (weight / 2) * Math.min(prefix, MAX_COUNTED_MATCHES);
+    }
+
+    if (termScore === 0) return 0;
+    total += termScore;
+  }
+
+  if (terms.length > 1 && prepared.document.title.toLowerCase().includes(phrase)) {
+    total += PHRASE_BONUS;
+  }
+
+  return total;
+}
+
+/**
+ * Excerpt of the body around the first matching term
+ */
+function buildSnippet(document: SearchDocument, terms: string[]): string {
+  const text = document.body || document.description;
+  const lower = text.toLowerCase();
+
+  const positions = terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0);
+  if (positions.length === 0) {
+    return document.description;
+  }
+
+  const first = Math.min(...positions);
+  const start = Math.max(0, first - SNIPPET_LENGTH / 3);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  // Widen to word boundaries
+  const from = start === 0 ? 0 : text.lastIndexOf(" ", start) + 1;
+  const toSpace = text.indexOf(" ", end);
+  const to = end === text.length || toSpace === -1 ? text.length : toSpace;
+
+  return `${from > 0 ? "…" : ""}${text.slice(from, to)}${to < text.length ? "…" : ""}`;
+}
+
+/**
+ * Whether a document passes the filters, optionally ignoring one facet
+ */
+function matchesFilters(document: SearchDocument, filters: SearchFilters, ignore?: SearchFacet): boolean {
+  return FACETS.every(
+    (facet) => facet === ignore || !filters[facet] || document[facet] === filters[facet]
+  );
+}
+
+/**
+ * Count facet values among matches, ignoring the facet's own filter
+ */
+function countFacet(
+  matches: SearchResult[],
+  filters: SearchFilters,
+  facet: SearchFacet
+): FacetCount[] {
+  const counts = new Map<string, number>();
+
+  for (const { document } of matches) {
+    const value = document[facet];
+    if (!value || !matchesFilters(document, filters, facet)) continue;
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Search Documents
+ * 
+ * @param documents - Documents from the search index
+ * @param query - Free-text query
+ * @param filters - Facet filters
+ * @param limit - Maximum number of results
+ * @returns Ranked results, query terms and facet counts
+ */
+export function searchDocuments(
+  documents: SearchDocument[],
+  query: string,
+  filters: SearchFilters = {},
+  limit = 50
+): SearchResponse {
+  const terms = [...new Set(tokenize(query))];
+  const phrase = terms.join(" ");
+
+  const matches: SearchResult[] =
+    terms.length === 0
+      ? []
+      : prepare(documents)
+          .map((prepared) => ({
+            document: prepared.document,
+            score: scoreDocument(prepared, terms, phrase),
+            snippet: "",
+          }))
+          .filter((result) => result.score > 0);
+
+  const facets = Object.fromEntries(
+    FACETS.map((facet) => [facet, countFacet(matches, filters, facet)])
+  ) as Record<SearchFacet, FacetCount[]>;
+
+  const results = matches
+    .filter((result) => matchesFilters(result.document, filters))
+    .sort((a, b) => b.score - a.score || a.document.title.localeCompare(b.document.title))
+    .slice(0, limit)
+    .map((result) => ({ ...result, snippet: buildSnippet(result.document, terms) }));
+
+  return { results, terms, facets };
+}
+
+/**
+ * Split text into plain and highlighted parts
+ * 
+ * @param text - Text to highlight
+ * @param terms - Query terms (matched case-insensitively, including word prefixes)
+ */
+export function highlightParts(text: string, terms: string[]): { text: string; match: boolean }[] {
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const escaped = terms
+    .slice()
+    .sort((a, b) => b.length - a.length)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const pattern = new RegExp(`(${escaped.join("|")})`, "giu");
+
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
@@ -0,0 +1,99 @@
+/**
+ * Search Document Type
+ * 
+ * Content collection a search document comes from
+ */
+export type SearchDocumentType = "post" | "venture" | "experience";
+
+/**
+ * Search Document
+ * 
+ * Flattened, serialisable view of one content entry.
+ * Built at build time and shipped to the browser as /search-index.json.
+ */
+export interface SearchDocument {
+  /** Unique id ("post:building-ai-powered-apps") */
+  id: string;
+
+  /** Source collection */
+  type: SearchDocumentType;
+
+  /** Entry title */
+  title: string;
+
+  /** Short summary */
+  description: string;
+
+  /** Page the result links to */
+  url: string;
+
+  /** Post category or employer, used as a facet */
+  category?: string;
+
+  /** Venture status, used as a facet */
+  status?: string;
+
+  /** Tags or technologies */
+  keywords: string[];
+
+  /** Section headings */
+  headings: string[];
+
+  /** Plain-text body */
+  body: string;
+
+  /** Publication or start date, for display */
+  date?: string;
+}
+
+/**
+ * Search Filters
+ * 
+ * Facet values a result must match; undefined means any
+ */
+export interface SearchFilters {
+  type?: string;
+  category?: string;
+  status?: string;
+}
+
+/**
+ * Facet Name
+ */
+export type SearchFacet = keyof SearchFilters;
+
+/**
+ * Facet Count
+ */
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * Search Result
+ */
+export interface SearchResult {
+  document: SearchDocument;
+
+  /** Relevance score, higher is better */
+  score: number;
+
+  /** Body excerpt around the first match */
+  snippet: string;
+}
+
+/**
+ * Search Response
+ * 
+ * Ranked results plus facet counts for the current query
+ */
+export interface SearchResponse {
+  results: SearchResult[];
+
+  /** Query terms, for highlighting */
+  terms: string[];
+
+  /** Counts per facet value, each ignoring its own filter */
+  facets: Record<SearchFacet, FacetCount[]>;
+}
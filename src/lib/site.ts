@@ -0,0 +1,43 @@
+/**
+ * Site Configuration
+ * 
+ * Canonical site identity shared by metadata, feeds and share links
+ */
+export const siteConfig = {
+  /** Site name */
+  name: "Ammly",
+
+  /** Canonical origin, without trailing slash */
+  url: "https://ammly.xyz",
+
+  /** Default meta description */
+  description:
+    "Full-stack software engineer specializing in AI/ML systems, distributed architecture, and cloud-native solutions. Building scalable applications with Python, TypeScript, Laravel and modern web technologies.",
+
+  /** Content language */
+  language: "en",
+
+  /** Time zone publication dates are interpreted in */
+  timeZone: "Africa/Nairobi",
+
+  /** Blog listings */
+  blog: {
+    /** Posts per page on the index and tag/category archives */
+    postsPerPage: 9,
+  },
+
+  /** Site owner, used as the default author */
+  author: {
+    /** Profile in content/authors */
+    slug: "ammly",
+    name: "Ammly Kinyua",
+    url: "https://ammly.xyz",
+  },
+} as const;
+
+/**
+ * Build an absolute URL from a site path
+ */
+export function absoluteUrl(path: string): string {
+  return new URL(path, siteConfig.url).toString();
+}
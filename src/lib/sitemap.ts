@@ -0,0 +1,173 @@
+import type { MetadataRoute } from "next";
+import { getAllPosts, getAllTags, getAllCategories, getPostArchive } from "@/lib/mdx";
+import { getAllVentures, toVenture, type VentureEntry } from "@/lib/ventures";
+import { getAllAuthors, getPostsByAuthor } from "@/lib/authors";
+import { absoluteUrl } from "@/lib/site";
+import { postHref, tagHref, categoryHref, authorHref, projectHref, archiveHref } from "@/lib/routes";
+import { slugify } from "@/lib/utils";
+import type { BlogPost } from "@/types/blog";
+
+type SitemapEntry = MetadataRoute.Sitemap[number];
+
+/**
+ * Maximum URLs per sitemap file (protocol limit is 50,000)
+ */
+export const SITEMAP_CHUNK_SIZE = 45000;
+
+/**
+ * Latest of a list of ISO dates, ignoring missing ones
+ */
+function latest(dates: (string | undefined)[]): string | undefined {
+  const known = dates.filter((date): date is string => Boolean(date));
+  return known.length > 0 ? known.reduce((a, b) => (a > b ? a : b)) : undefined;
+}
+
+/**
+ * Last modification date of a post
+ */
+function postLastModified(post: BlogPost): string {
+  return post.frontmatter.updated ?? post.frontmatter.date;
+}
+
+/**
+ * Last modification date of a venture
+ *
+ * Its lastUpdated, or the source file's mtime when it has no dated content
+ */
+function ventureLastModified(venture: VentureEntry): string {
+  return toVenture(venture).lastUpdated ?? venture.modifiedAt.slice(0, 10);
+}
+
+/**
+ * Collect every public URL on the site
+ * 
+ * Content routes take lastModified from frontmatter (updated, then date for
+ * posts; the venture's lastUpdated for ventures, falling back to the source
+ * file's mtime when it has no dated content). Drafts are excluded because
+ * the collection getters only return published entries.
+ */
+export function getSitemapEntries(): SitemapEntry[] {
+  const posts = getAllPosts();
+  const ventures = getAllVentures();
+
+  const postEntries: SitemapEntry[] = posts.map((post) => ({
+    url: absoluteUrl(postHref(post.slug)),
+    lastModified: postLastModified(post),
+    changeFrequency: "monthly",
+    priority: 0.7,
+  }));
+
+  const ventureEntries: SitemapEntry[] = ventures.map((venture) => ({
+    url: absoluteUrl(projectHref(venture.slug)),
+    lastModified: ventureLastModified(venture),
+    changeFrequency: "monthly",
+    // Featured ventures are the ones worth surfacing first
+    priority: venture.frontmatter.featured ? 0.8 : 0.6,
+  }));
+
+  const lastPostDate = latest(posts.map(postLastModified));
+  const lastVentureDate = latest(ventures.map(ventureLastModified));
+
+  const taxonomyEntries: SitemapEntry[] = [
+    ...getAllCategories().map((category) => ({
+      url: absoluteUrl(categoryHref(category.slug)),
+      lastModified: latest(
+        posts
+          .filter((post) => slugify(post.frontmatter.category) === category.slug)
+          .map(postLastModified)
+      ),
+      changeFrequency: "weekly" as const,
+      priority: 0.4,
+    })),
+    ...getAllTags().map((tag) => ({
+      url: absoluteUrl(tagHref(tag.slug)),
+      lastModified: latest(
+        posts
+          .filter((post) => post.frontmatter.tags.some((t) => slugify(t) === tag.slug))
+          .map(postLastModified)
+      ),
+      changeFrequency: "weekly" as const,
+      priority: 0.3,
+    })),
+  ];
+
+  const archiveEntries: SitemapEntry[] = getPostArchive().flatMap(({ year, months }) => [
+    {
+      url: absoluteUrl(archiveHref(year)),
+      lastModified: latest(months.flatMap((month) => month.posts.map(postLastModified))),
+      changeFrequency: "monthly" as const,
+      priority: 0.3,
+    },
+    ...months.map(({ month, posts }) => ({
+      url: absoluteUrl(archiveHref(year, month)),
+      lastModified: latest(posts.map(postLastModified)),
+      changeFrequency: "yearly" as const,
+      priority: 0.2,
+    })),
+  ]);
+
+  const authorEntries: SitemapEntry[] = getAllAuthors().map((author) => ({
+    url: absoluteUrl(authorHref(author.slug)),
+    lastModified: latest(getPostsByAuthor(author.slug).map(postLastModified)) ?? author.modifiedAt,
+    changeFrequency: "monthly",
+    priority: 0.4,
+  }));
+
+  const staticEntries: SitemapEntry[] = [
+    {
+      url: absoluteUrl("/"),
+      lastModified: latest([lastPostDate, lastVentureDate]),
+      changeFrequency: "weekly",
+      priority: 1,
+    },
+    {
+      url: absoluteUrl("/blog"),
+      lastModified: lastPostDate,
+      changeFrequency: "weekly",
+      priority: 0.9,
+    },
+    {
+      url: absoluteUrl("/blog/tags"),
+      lastModified: lastPostDate,
+      changeFrequency: "weekly",
+      priority: 0.4,
+    },
+    {
+      url: absoluteUrl(archiveHref()),
+      lastModified: lastPostDate,
+      changeFrequency: "weekly",
+      priority: 0.4,
+    },
+    {
+      url: absoluteUrl("/all-projects"),
+      lastModified: lastVentureDate,
+      changeFrequency: "monthly",
+      priority: 0.8,
+    },
+  ];
+
+  return [...staticEntries, ...ventureEntries, ...postEntries, ...authorEntries, ...taxonomyEntries, ...archiveEntries];
+}
+
+/**
+ * Number of sitemap files needed for every URL
+ */
+export function getSitemapCount(): number {
+  return Math.max(1, Math.ceil(getSitemapEntries().length / SITEMAP_CHUNK_SIZE));
+}
+
+/**
+ * Entries belonging to one sitemap file
+ * 
+ * @param id - Zero-based sitemap number
+ */
+export function getSitemapChunk(id: number): SitemapEntry[] {
+  return getSitemapEntries().slice(id * SITEMAP_CHUNK_SIZE, (id + 1) * SITEMAP_CHUNK_SIZE);
+}
+
+/**
+ * Path of a sitemap file generated by app/sitemap.ts
+ */
+export function sitemapPath(id: number): string {
+  return `/sitemap/${id}.xml`;
+}
@@ -0,0 +1,245 @@
+import type { BlogPost } from "@/types/blog";
+import type { Author } from "@/lib/authors";
+import type { Experience } from "@/lib/experiences";
+import type { Venture } from "@/types/venture";
+import { absoluteUrl, siteConfig } from "@/lib/site";
+import { authorHref, postHref, projectHref } from "@/lib/routes";
+
+/**
+ * JSON-LD Node
+ *
+ * A schema.org object. Only the properties the site emits are modelled;
+ * undefined values are dropped when serialised.
+ */
+export interface JsonLd {
+  "@context"?: "https://schema.org";
+  "@type": string;
+  [property: string]: JsonLdValue;
+}
+
+export type JsonLdValue = string | number | boolean | undefined | JsonLd | JsonLdValue[];
+
+/**
+ * Breadcrumb
+ *
+ * One step of a page's trail
+ */
+export interface Breadcrumb {
+  name: string;
+  path: string;
+}
+
+/**
+ * Structured Data Error
+ *
+ * Thrown while rendering a page whose JSON-LD lacks a property search
+ * engines require, so the build fails instead of shipping markup that
+ * silently loses its rich result.
+ */
+export class StructuredDataError extends Error {
+  /** Page the data was built for (e.g. "/blog/hello-world") */
+  readonly page: string;
+
+  /** Missing properties (e.g. "BlogPosting.image") */
+  readonly issues: string[];
+
+  constructor(page: string, issues: string[]) {
+    super(
+      `Invalid structured data for ${page}:\n${issues.map((issue) => `  - ${issue}: required`).join("\n")}`
+    );
+    this.name = "StructuredDataError";
+    this.page = page;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Required properties per type
+ *
+ * Follows Google's structured data guidelines for the rich results each
+ * type is eligible for.
+ */
+const REQUIRED_PROPERTIES: Record<string, string[]> = {
+  BlogPosting: ["headline", "description", "datePublished", "author", "image", "url"],
+  Person: ["name", "url"],
+  SoftwareApplication: ["name", "description", "url", "applicationCategory"],
+  CreativeWork: ["name", "description", "url"],
+  BreadcrumbList: ["itemListElement"],
+  ListItem: ["position", "name", "item"],
+  Organization: ["name"],
+};
+
+function isMissing(value: JsonLdValue): boolean {
+  return value === undefined || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+function isNode(value: JsonLdValue): value is JsonLd {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collect missing required properties, including in nested nodes
+ */
+function collectIssues(node: JsonLd, path: string, issues: string[]) {
+  for (const property of REQUIRED_PROPERTIES[node["@type"]] ?? []) {
+    if (isMissing(node[property])) issues.push(`${path}.${property}`);
+  }
+
+  for (const [property, value] of Object.entries(node)) {
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach((child, index) => {
+      if (!isNode(child)) return;
+      const childPath = Array.isArray(value) ? `${path}.${property}[${index}]` : `${path}.${property}`;
+      collectIssues(child, childPath, issues);
+    });
+  }
+}
+
+/**
+ * Validate a JSON-LD document and add its @context
+ *
+ * @param page - Path of the page it is emitted on (used in the error report)
+ * @throws StructuredDataError listing every missing required property
+ */
+function defineJsonLd(page: string, node: JsonLd): JsonLd {
+  const issues: string[] = [];
+  collectIssues(node, node["@type"], issues);
+
+  if (issues.length > 0) {
+    throw new StructuredDataError(page, issues);
+  }
+
+  return { "@context": "https://schema.org", ...node };
+}
+
+/**
+ * Person node for an author profile
+ */
+function authorNode(author: Author): JsonLd {
+  const { name, role, avatar, social } = author.frontmatter;
+
+  return {
+    "@type": "Person",
+    name,
+    url: absoluteUrl(authorHref(author.slug)),
+    jobTitle: role,
+    image: avatar ? absoluteUrl(avatar) : undefined,
+    sameAs: [social.website, social.github, social.linkedin, social.twitter].filter(
+      (link): link is string => Boolean(link)
+    ),
+  };
+}
+
+/**
+ * BlogPosting for a post page
+ *
+ * The image is the cover when there is one, otherwise the generated
+ * Open Graph card.
+ */
+export function blogPostingJsonLd(post: BlogPost, authors: Author[]): JsonLd {
+  const { frontmatter } = post;
+  const url = absoluteUrl(postHref(post.slug));
+
+  return defineJsonLd(postHref(post.slug), {
+    "@type": "BlogPosting",
+    headline: frontmatter.title,
+    description: frontmatter.description,
+    url,
+    mainEntityOfPage: url,
+    datePublished: frontmatter.date,
+    dateModified: frontmatter.updated ?? frontmatter.date,
+    author: authors.map(authorNode),
+    image: frontmatter.coverImage
+      ? absoluteUrl(frontmatter.coverImage)
+      : absoluteUrl(`${postHref(post.slug)}/opengraph-image`),
+    articleSection: frontmatter.category,
+    keywords: frontmatter.tags.join(", "),
+    publisher: {
+      "@type": "Organization",
+      name: siteConfig.name,
+      url: siteConfig.url,
+    },
+  });
+}
+
+/**
+ * Person for the home page
+ *
+ * Built from the site owner's author profile and their experience:
+ * the current role supplies the job title and employer, and the
+ * technologies across all roles become knowsAbout.
+ */
+export function personJsonLd(owner: Author | null, experiences: Experience[]): JsonLd {
+  const current = experiences.find((experience) => experience.frontmatter.current) ?? experiences[0];
+  const profile = owner ? authorNode(owner) : undefined;
+
+  return defineJsonLd("/", {
+    ...profile,
+    "@type": "Person",
+    name: siteConfig.author.name,
+    url: siteConfig.author.url,
+    description: owner?.frontmatter.bio ?? siteConfig.description,
+    jobTitle: current?.frontmatter.title ?? profile?.jobTitle,
+    worksFor: current
+      ? { "@type": "Organization", name: current.frontmatter.company }
+      : undefined,
+    knowsAbout: [...new Set(experiences.flatMap((experience) => experience.frontmatter.technologies))],
+  });
+}
+
+/**
+ * SoftwareApplication or CreativeWork for a venture page
+ *
+ * Ventures people can use (a live site or demo) are applications;
+ * concepts and research are creative works. Source and docs links
+ * become sameAs.
+ */
+export function ventureJsonLd(venture: Venture): JsonLd {
+  const url = absoluteUrl(projectHref(venture.slug));
+  const appUrl = venture.links.live ?? venture.links.demo;
+
+  const base: JsonLd = {
+    "@type": "CreativeWork",
+    name: venture.name,
+    description: venture.description,
+    url,
+    image: venture.coverImage
+      ? absoluteUrl(venture.coverImage)
+      : absoluteUrl(`${projectHref(venture.slug)}/opengraph-image`),
+    keywords: venture.technologies.join(", "),
+    dateModified: venture.lastUpdated,
+    sameAs: [venture.links.source, venture.links.docs].filter((link): link is string => Boolean(link)),
+    creator: { "@type": "Person", name: siteConfig.author.name, url: siteConfig.author.url },
+  };
+
+  if (!appUrl) {
+    return defineJsonLd(projectHref(venture.slug), base);
+  }
+
+  return defineJsonLd(projectHref(venture.slug), {
+    ...base,
+    "@type": "SoftwareApplication",
+    applicationCategory: "WebApplication",
+    operatingSystem: "Web",
+    installUrl: appUrl,
+  });
+}
+
+/**
+ * BreadcrumbList for a nested page
+ *
+ * @param trail - Steps after Home, ending with the current page
+ */
+export function breadcrumbJsonLd(trail: Breadcrumb[]): JsonLd {
+  const steps: Breadcrumb[] = [{ name: "Home", path: "/" }, ...trail];
+
+  return defineJsonLd(steps[steps.length - 1].path, {
+    "@type": "BreadcrumbList",
+    itemListElement: steps.map((step, index) => ({
+      "@type": "ListItem",
+      position: index + 1,
+      name: step.name,
+      item: absoluteUrl(step.path),
+    })),
+  });
+}
@@ -1,89 +1,154 @@
-import fs from "fs";
-import path from "path";
-import matter from "gray-matter";
+import type { Venture, VentureFrontmatter, VentureMetric, VentureMilestone, VentureStatus } from "@/types/venture";
+import { defaultMetricIcons, getMetricSeries } from "@/lib/metrics";
+import { ventureFrontmatterSchema } from "@/lib/schemas";
+import { defineCollection, type CollectionEntry } from "@/lib/content";
 
-const venturesDirectory = path.join(process.cwd(), "content/ventures");
+export type { Venture, VentureFrontmatter };
 
-export interface VentureFrontmatter {
-  title: string;
-  description: string;
-  icon: string;
-  status: "building" | "live" | "concept";
-  github?: string;
-  demo?: string;
-  link?: string;
-  technologies: string[];
-  featured?: boolean;
-  order?: number;
-  coverImage?: string;
-  screenshots?: string[];
-  metrics?: {
-    [key: string]: string | number;
-  };
-}
+/**
+ * Venture Entry
+ * 
+ * Parsed MDX file from content/ventures; pages and cards work with the
+ * Venture model from toVenture
+ */
+export type VentureEntry = CollectionEntry<VentureFrontmatter>;
+
+/**
+ * Venture Collection
+ * 
+ * MDX files in content/ventures, sorted by order (unordered last),
+ * hiding unpublished ventures
+ */
+export const ventures = defineCollection({
+  directory: "ventures",
+  schema: ventureFrontmatterSchema,
+  filter: (venture) => isVenturePublic(venture),
+  sort: (a, b) => (a.frontmatter.order ?? 999) - (b.frontmatter.order ?? 999),
+});
 
-export interface Venture {
-  slug: string;
-  frontmatter: VentureFrontmatter;
-  content: string;
+/**
+ * Whether a venture is visible outside draft preview
+ */
+export function isVenturePublic(venture: VentureEntry): boolean {
+  return venture.frontmatter.published;
 }
 
 /**
  * Get all venture slugs
+ * 
+ * Includes unpublished ventures; use getAllVentures for public pages
  */
 export function getAllVentureSlugs(): string[] {
-  if (!fs.existsSync(venturesDirectory)) {
-    return [];
-  }
-  const fileNames = fs.readdirSync(venturesDirectory);
-  return fileNames
-    .filter((fileName) => fileName.endsWith(".mdx"))
-    .map((fileName) => fileName.replace(/\.mdx$/, ""));
+  return ventures.getSlugs();
 }
 
 /**
  * Get a single venture by slug
+ *
+ * @throws ContentValidationError if the frontmatter is invalid
  */
-export function getVentureBySlug(slug: string): Venture | null {
-  try {
-    const fullPath = path.join(venturesDirectory, `${slug}.mdx`);
-    const fileContents = fs.readFileSync(fullPath, "utf8");
-    const { data, content } = matter(fileContents);
+export function getVentureBySlug(slug: string): VentureEntry | null {
+  return ventures.getBySlug(slug);
+}
 
-    return {
-      slug,
-      frontmatter: data as VentureFrontmatter,
-      content,
-    };
-  } catch (error) {
-    console.error(`Error reading venture ${slug}:`, error);
-    return null;
-  }
+/**
+ * Get all ventures, sorted by order
+ */
+export function getAllVentures(): VentureEntry[] {
+  return ventures.getAll();
 }
 
 /**
- * Get all ventures, sorted by order or date
+ * Get featured ventures only
  */
-export function getAllVentures(): Venture[] {
-  const slugs = getAllVentureSlugs();
-  const ventures = slugs
-    .map((slug) => getVentureBySlug(slug))
-    .filter((venture): venture is Venture => venture !== null)
-    .sort((a, b) => {
-      // Sort by order if specified, otherwise alphabetically
-      const orderA = a.frontmatter.order ?? 999;
-      const orderB = b.frontmatter.order ?? 999;
-      return orderA - orderB;
+export function getFeaturedVentures(): VentureEntry[] {
+  return getAllVentures().filter((venture) => venture.frontmatter.featured);
+}
+
+/**
+ * Latest of some optional YYYY-MM-DD dates
+ */
+function latestDate(dates: (string | undefined)[]): string | undefined {
+  return dates.filter((date): date is string => Boolean(date)).sort().at(-1);
+}
+
+/**
+ * Build the Venture model from a content entry
+ * 
+ * The single mapping from frontmatter to what pages and cards render.
+ * Metrics without an icon get their unit's default, and their history
+ * and current value are merged into one series. Milestones are sorted
+ * and their status changes paired with the previous status.
+ */
+export function toVenture(entry: VentureEntry): Venture {
+  const { frontmatter } = entry;
+
+  const metrics = frontmatter.metrics.map(({ history, ...metric }): VentureMetric => ({
+    ...metric,
+    icon: metric.icon ?? defaultMetricIcons[metric.unit],
+    series: getMetricSeries(history, metric.asOf ? { date: metric.asOf, value: metric.value } : undefined),
+  }));
+
+  // Pair each status change with the status before it
+  let status: VentureStatus | undefined;
+  const milestones = [...frontmatter.milestones]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(({ status: to, ...milestone }): VentureMilestone => {
+      if (!to) return milestone;
+      const from = status;
+      status = to;
+      return { ...milestone, transition: { from, to } };
     });
 
-  return ventures;
+  return {
+    slug: entry.slug,
+    name: frontmatter.title,
+    description: frontmatter.description,
+    icon: frontmatter.icon,
+    status: frontmatter.status,
+    links: frontmatter.links,
+    metrics,
+    technologies: frontmatter.technologies,
+    featured: frontmatter.featured,
+    milestones,
+    lastUpdated: latestDate([
+      frontmatter.updated,
+      ...milestones.map((milestone) => milestone.date),
+      ...metrics.map((metric) => metric.asOf),
+    ]),
+    coverImage: frontmatter.coverImage,
+    screenshots: frontmatter.screenshots ?? [],
+  };
 }
 
 /**
- * Get featured ventures only
+ * Portfolio-wide metrics
+ * 
+ * Projects launched counts public ventures that are live. Users
+ * reached sums every "users" metric; it is a lower bound ("+") when
+ * any of those figures is, and dated by the most recent measurement.
  */
-export function getFeaturedVentures(): Venture[] {
-  return getAllVentures().filter(
-    (venture) => venture.frontmatter.featured === true
-  );
+export function getPortfolioMetrics(): { launched: VentureMetric; usersReached: VentureMetric } {
+  const all = getAllVentures().map(toVenture);
+  const userMetrics = all.flatMap((venture) => venture.metrics.filter((metric) => metric.unit === "users"));
+  const asOf = latestDate(userMetrics.map((metric) => metric.asOf));
+
+  return {
+    launched: {
+      label: "Projects Launched",
+      value: all.filter((venture) => venture.status === "live").length,
+      unit: "count",
+      icon: "rocket",
+      series: [],
+    },
+    usersReached: {
+      label: "Users Reached",
+      value: userMetrics.reduce((sum, metric) => sum + metric.value, 0),
+      unit: "users",
+      suffix: userMetrics.some((metric) => metric.suffix === "+") ? "+" : undefined,
+      icon: "users",
+      asOf,
+      series: [],
+    },
+  };
 }
@@ -0,0 +1,16 @@
+import type { z } from "zod";
+import type { authorFrontmatterSchema } from "@/lib/schemas/author";
+
+/**
+ * Author Frontmatter
+ * 
+ * Profile metadata from MDX files in content/authors.
+ * Derived from authorFrontmatterSchema; the file slug is the key
+ * posts use in their `author` field.
+ */
+export type AuthorFrontmatter = z.output<typeof authorFrontmatterSchema>;
+
+/**
+ * Author Social Links
+ */
+export type AuthorSocialLinks = AuthorFrontmatter["social"];
@@ -1,3 +1,7 @@
+import type { z } from "zod";
+import type { blogFrontmatterSchema } from "@/lib/schemas/blog";
+import type { ContentStats } from "@/lib/content/stats";
+
 /**
  * Blog Post Interface
  * 
@@ -12,38 +16,113 @@ export interface BlogPost {
   
   /** Raw MDX content */
   content: string;
+  
+  /** Source file modification time (ISO string) */
+  modifiedAt: string;
+  
+  /** Word count, reading time and headings computed at index time */
+  stats: ContentStats;
 }
 
 /**
- * Blog Frontmatter Interface
+ * Blog Frontmatter
+ * 
+ * Metadata extracted from MDX frontmatter.
+ * Inferred from the validation schema so the type and runtime checks never drift.
+ */
+export type BlogFrontmatter = z.output<typeof blogFrontmatterSchema>;
+
+/**
+ * Taxonomy Term
  * 
- * Metadata extracted from MDX frontmatter
+ * A tag or category with its URL slug and number of published posts
  */
-export interface BlogFrontmatter {
-  /** Post title */
-  title: string;
+export interface TaxonomyTerm {
+  /** Display name, as written in frontmatter */
+  name: string;
   
-  /** Post description/excerpt */
-  description: string;
+  /** URL-safe identifier */
+  slug: string;
   
-  /** Publication date (ISO string) */
-  date: string;
+  /** Number of published posts using the term */
+  count: number;
+}
+
+/**
+ * Post Series
+ * 
+ * Published posts sharing a series name, ordered by part
+ */
+export interface PostSeries {
+  /** Series name */
+  name: string;
   
-  /** Post author */
-  author: string;
+  /** URL-safe identifier */
+  slug: string;
   
-  /** Category/topic */
-  category: string;
+  /** Parts in reading order */
+  posts: BlogPost[];
+}
+
+/**
+ * Adjacent Post
+ * 
+ * Neighbour link on a post page, either the next part of its
+ * series or the chronologically adjacent post
+ */
+export interface AdjacentPost {
+  post: BlogPost;
   
-  /** Tags for filtering */
-  tags: string[];
+  /** Part number when the link follows the series */
+  seriesPart?: number;
+}
+
+/**
+ * Post Orderings
+ * 
+ * Sort options for post listings; the first is the default
+ */
+export const postOrders = ["newest", "oldest", "longest"] as const;
+
+export type PostOrder = (typeof postOrders)[number];
+
+/**
+ * Order Configuration
+ * 
+ * Labels for the sort controls
+ */
+export const postOrderConfig: Record<PostOrder, { label: string }> = {
+  newest: { label: "Newest" },
+  oldest: { label: "Oldest" },
+  longest: { label: "Longest read" },
+};
+
+/**
+ * Archive Month
+ * 
+ * Published posts dated in one calendar month
+ */
+export interface ArchiveMonth {
+  year: number;
   
-  /** Cover image URL */
-  coverImage?: string;
+  /** 1-based month */
+  month: number;
+  
+  /** Posts in the month, newest first */
+  posts: BlogPost[];
+}
+
+/**
+ * Archive Year
+ * 
+ * Published posts dated in one calendar year, grouped by month
+ */
+export interface ArchiveYear {
+  year: number;
   
-  /** Reading time in minutes */
-  readingTime?: string;
+  /** Months with posts, newest first */
+  months: ArchiveMonth[];
   
-  /** Whether post is published */
-  published?: boolean;
+  /** Number of posts in the year */
+  count: number;
 }
@@ -1,3 +1,7 @@
+import type { ReactNode } from "react";
+import type { z } from "zod";
+import type { experienceFrontmatterSchema } from "@/lib/schemas/experience";
+
 /**
  * Experience Interface
  * 
@@ -33,4 +37,15 @@ export interface Experience {
   
   /** Optional: Company logo or icon */
   icon?: string;
+  
+  /** Optional: Rendered MDX body with the full role write-up */
+  details?: ReactNode;
 }
+
+/**
+ * Experience Frontmatter
+ * 
+ * Metadata extracted from MDX files in content/experiences.
+ * Derived from experienceFrontmatterSchema.
+ */
+export type ExperienceFrontmatter = z.output<typeof experienceFrontmatterSchema>;
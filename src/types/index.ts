@@ -2,3 +2,4 @@
 export * from "./venture";
 export * from "./experience";
 export * from "./blog";
+export * from "./author";
@@ -1,12 +1,23 @@
+import type { z } from "zod";
+import type {
+  metricIcons,
+  metricUnits,
+  ventureFrontmatterSchema,
+  ventureLinkTypes,
+  metricPointSchema,
+  ventureMetricSchema,
+  ventureStatuses,
+} from "@/lib/schemas/venture";
+
 /**
- * Venture Data Interface
+ * Venture
  * 
- * Comprehensive type definition for AI venture projects
- * Ensures type safety across components
+ * Canonical venture model used by every page and card. Built from a
+ * content entry by toVenture in lib/ventures.
  */
 export interface Venture {
-  /** Unique identifier for the venture */
-  id: string;
+  /** URL slug (filename without extension) */
+  slug: string;
   
   /** Project name */
   name: string;
@@ -14,29 +25,35 @@ export interface Venture {
   /** Brief description of the venture */
   description: string;
   
-  /** Icon identifier (lucide-react icon name or component) */
+  /** Icon identifier (see iconMap in VentureCard) */
   icon: string;
   
   /** Current development status */
   status: VentureStatus;
   
-  /** Project metrics and statistics */
-  metrics: VentureMetrics;
+  /** Project links by type */
+  links: VentureLinks;
+  
+  /** Project metrics, in frontmatter order */
+  metrics: VentureMetric[];
   
   /** Technology stack used */
   technologies: string[];
   
-  /** Optional: Cover image for the project card */
-  coverImage?: string;
+  /** Whether the venture is highlighted on the home page */
+  featured: boolean;
+  
+  /** Progress log, oldest first */
+  milestones: VentureMilestone[];
   
-  /** Optional: Array of screenshot URLs */
-  screenshots?: string[];
+  /** Optional: Date of the latest revision, milestone or measurement (YYYY-MM-DD) */
+  lastUpdated?: string;
   
-  /** Optional: Link to project */
-  link?: string;
+  /** Optional: Cover image for the project card */
+  coverImage?: string;
   
-  /** Optional: GitHub repository */
-  github?: string;
+  /** Screenshot URLs */
+  screenshots: string[];
 }
 
 /**
@@ -44,31 +61,78 @@ export interface Venture {
  * 
  * Discriminated union for type-safe status handling
  */
-export type VentureStatus = "building" | "concept" | "research" | "live";
+export type VentureStatus = (typeof ventureStatuses)[number];
 
 /**
- * Venture Metrics Interface
+ * Venture Frontmatter
  * 
- * Quantifiable project achievements
+ * Metadata extracted from MDX files in content/ventures.
+ * Shape comes from ventureFrontmatterSchema - change the schema, not this type.
  */
-export interface VentureMetrics {
-  /** Number of users/customers */
-  users?: string;
-  
-  /** Accuracy/performance metric */
-  accuracy?: string;
-  
-  /** Processing speed or time saved */
-  speed?: string;
+export type VentureFrontmatter = z.output<typeof ventureFrontmatterSchema>;
+
+/**
+ * Venture Link Type
+ */
+export type VentureLinkType = (typeof ventureLinkTypes)[number];
+
+/**
+ * Venture Links
+ * 
+ * URL per link type; missing types are omitted
+ */
+export type VentureLinks = Partial<Record<VentureLinkType, string>>;
+
+/**
+ * Metric Unit
+ */
+export type MetricUnit = (typeof metricUnits)[number];
+
+/**
+ * Metric Icon
+ */
+export type MetricIconName = (typeof metricIcons)[number];
+
+/**
+ * Metric Point
+ * 
+ * A dated measurement
+ */
+export type MetricPoint = z.output<typeof metricPointSchema>;
+
+/**
+ * Venture Metric
+ * 
+ * One measured achievement; format with formatMetric from lib/metrics.
+ * The icon is always set (toVenture fills in the unit's default).
+ */
+export type VentureMetric = Omit<z.output<typeof ventureMetricSchema>, "icon" | "history"> & {
+  icon: MetricIconName;
+
+  /** Every dated measurement, oldest first, ending with the current value */
+  series: MetricPoint[];
+};
+
+/**
+ * Venture Milestone
+ * 
+ * A dated step in a venture's progress
+ */
+export interface VentureMilestone {
+  /** Date reached (YYYY-MM-DD) */
+  date: string;
   
-  /** Cost reduction or savings */
-  savings?: string;
+  /** Short headline */
+  title: string;
   
-  /** Custom metric label */
-  customLabel?: string;
+  /** What happened */
+  description?: string;
   
-  /** Custom metric value */
-  customValue?: string;
+  /** Status change, when the milestone moved the venture (from is unset for the first) */
+  transition?: {
+    from?: VentureStatus;
+    to: VentureStatus;
+  };
 }
 
 /**
@@ -97,3 +161,23 @@ export const statusConfig: Record<VentureStatus, {
     label: "Live",
   },
 };
+
+/**
+ * Link Configuration
+ * 
+ * Button label for each link type
+ */
+export const linkConfig: Record<VentureLinkType, { label: string }> = {
+  live: {
+    label: "View Live Project",
+  },
+  demo: {
+    label: "Try the Demo",
+  },
+  source: {
+    label: "View Source Code",
+  },
+  docs: {
+    label: "Read the Docs",
+  },
+};